@@ -0,0 +1,119 @@
+export type CacheEntry<V> = { value: V; storedAt: number; lastUsed: number };
+
+export type CacheOptions = {
+    /** Entries beyond this are evicted least recently used first. */
+    maxSize?: number;
+    /** Entries older than this are treated as missing. */
+    ttlMs?: number;
+};
+
+// Entries stored in an older format are bare timestamps or objects without a `value`
+const isEntry = (entry: unknown): entry is CacheEntry<unknown> =>
+    typeof entry === "object" && entry !== null && "value" in entry;
+
+/**
+ * LRU cache with optional expiry over a record owned by the caller.
+ * Pass a plugin storage field to persist it across restarts.
+ *
+ * Every write to a store saves it, so reads only update the recency order in memory.
+ * Their times reach the record with the next `set`, or on `flush`, which callers run on unload.
+ */
+export class PersistentCache<V> {
+    private readonly maxSize: number;
+    private readonly ttlMs: number;
+    // Keys from least to most recently used, with the time of their last use
+    private readonly recency = new Map<string, number>();
+    private readonly unsaved = new Set<string>();
+
+    constructor(private readonly entries: Record<string, CacheEntry<V>>, { maxSize = 1000, ttlMs = Infinity }: CacheOptions = {}) {
+        this.maxSize = maxSize;
+        this.ttlMs = ttlMs;
+
+        const keys = Object.keys(entries).filter(key => {
+            if (isEntry(entries[key])) return true;
+            delete entries[key];
+            return false;
+        });
+        keys.sort((a, b) => (entries[a].lastUsed ?? 0) - (entries[b].lastUsed ?? 0))
+            .forEach(key => this.recency.set(key, entries[key].lastUsed ?? 0));
+        this.evict();
+    }
+
+    private getEntry(key: string): CacheEntry<V> | undefined {
+        const entry = this.entries[key];
+        if (entry === undefined) return undefined;
+        if (Date.now() - entry.storedAt >= this.ttlMs) {
+            this.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private touch(key: string, time: number) {
+        this.recency.delete(key);
+        this.recency.set(key, time);
+    }
+
+    private evict() {
+        for (const key of this.recency.keys()) {
+            if (this.recency.size <= this.maxSize) break;
+            this.delete(key);
+        }
+    }
+
+    has(key: string): boolean {
+        return this.getEntry(key) !== undefined;
+    }
+
+    get(key: string): V | undefined {
+        const entry = this.getEntry(key);
+        if (!entry) return undefined;
+        this.touch(key, Date.now());
+        this.unsaved.add(key);
+        return entry.value;
+    }
+
+    /** Stores `value` and returns the stored copy, which persists changes made to it later. */
+    set(key: string, value: V): V {
+        const now = Date.now();
+        this.flush();
+        this.entries[key] = { value, storedAt: now, lastUsed: now };
+        this.touch(key, now);
+        this.unsaved.delete(key);
+        this.evict();
+        return this.entries[key].value;
+    }
+
+    delete(key: string) {
+        delete this.entries[key];
+        this.recency.delete(key);
+        this.unsaved.delete(key);
+    }
+
+    clear() {
+        for (const key of Object.keys(this.entries)) delete this.entries[key];
+        this.recency.clear();
+        this.unsaved.clear();
+    }
+
+    /** Writes the times of reads since the last flush to the record, so the order survives a restart. */
+    flush() {
+        for (const key of this.unsaved) {
+            const entry = this.entries[key];
+            if (entry) entry.lastUsed = this.recency.get(key) ?? entry.lastUsed;
+        }
+        this.unsaved.clear();
+    }
+
+    values(): V[] {
+        return [...this.recency.keys()].flatMap(key => {
+            const entry = this.getEntry(key);
+            return entry ? [entry.value] : [];
+        });
+    }
+
+    /** The number of entries, counting expired ones until they are next read. */
+    get size(): number {
+        return this.recency.size;
+    }
+}
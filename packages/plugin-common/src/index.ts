@@ -0,0 +1,4 @@
+export * from "./cache";
+export * from "./playerState";
+export * from "./inject";
+export * from "./overlay";
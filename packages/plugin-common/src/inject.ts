@@ -0,0 +1,52 @@
+import type { LunaUnload } from "@luna/core";
+import { observe } from "@luna/lib";
+
+export type InjectOptions<E extends Element> = {
+    /** Selector of the TIDAL element to attach to. */
+    anchor: string;
+    /** Class marking the managed element, used to find and remove it. */
+    className: string;
+    create: (anchor: Element) => E;
+    /** Where to insert, inside the end of the anchor by default. Called on every mount, so it may depend on settings. */
+    getPlacement?: (anchor: Element) => Placement;
+};
+
+export type Placement = { el: Element | null | undefined; pos: InsertPosition };
+
+export type Injection<E extends Element> = {
+    /** Every mounted element. */
+    elements: () => E[];
+    /** Replaces every mounted element with a freshly created one. */
+    remount: () => void;
+    unmount: () => void;
+};
+
+/** Keeps one managed element next to every element matching `anchor`, and removes them all on unload. */
+export function injectElement<E extends Element>(unloads: Set<LunaUnload>, options: InjectOptions<E>): Injection<E> {
+    const { anchor, className, create, getPlacement = (el: Element): Placement => ({ el, pos: "beforeend" }) } = options;
+
+    const elements = () => [...document.querySelectorAll<E>(`.${className}`)] as E[];
+    const unmount = () => elements().forEach(el => el.remove());
+
+    const mount = (anchorEl: Element) => {
+        const { el: target, pos } = getPlacement(anchorEl);
+        if (!target) return;
+        // Anchors are re-rendered in place, so look for an element from an earlier mount around it first
+        if ((target.parentElement ?? target).querySelector(`.${className}`)) return;
+
+        const el = create(anchorEl);
+        el.classList.add(className);
+        target.insertAdjacentElement(pos, el);
+    };
+
+    const remount = () => {
+        unmount();
+        document.querySelectorAll(anchor).forEach(mount);
+    };
+
+    unmount();
+    unloads.add(unmount);
+    observe(unloads, anchor, mount);
+
+    return { elements, remount, unmount };
+}
@@ -0,0 +1,26 @@
+// Looked up by id rather than kept in a variable, since each plugin bundles its own copy of this module
+const STACK_ID = "renskursa-overlay-stack";
+
+function getStack(): HTMLElement {
+    let stack = document.getElementById(STACK_ID);
+    if (stack) return stack;
+
+    stack = document.createElement("div");
+    stack.id = STACK_ID;
+    stack.style.cssText = "position: fixed; right: 24px; bottom: 120px; z-index: 10000; display: flex; flex-direction: column; align-items: flex-end; gap: 8px; pointer-events: none;";
+    document.body.append(stack);
+    return stack;
+}
+
+/** Shows `el` in the bottom-right corner, stacked with the overlays of every other plugin instead of on top of them. */
+export function mountOverlay(el: HTMLElement) {
+    el.style.pointerEvents = "auto";
+    getStack().append(el);
+}
+
+/** Removes `el`, and the stack once nothing is left in it. */
+export function unmountOverlay(el: Element | null | undefined) {
+    el?.remove();
+    const stack = document.getElementById(STACK_ID);
+    if (stack && stack.childElementCount === 0) stack.remove();
+}
@@ -0,0 +1,65 @@
+import { redux } from "@luna/lib";
+
+export type MediaType = "track" | "video";
+
+export type PlaybackContext = {
+    actualProductId?: string | number;
+    actualDuration?: number;
+    actualVideoQuality?: string | null;
+};
+
+export type PlaybackControls = {
+    playbackState?: string;
+    latestCurrentTime?: number;
+    latestCurrentTimeSyncTimestamp?: number;
+    playbackContext?: PlaybackContext;
+    mediaProduct?: { productId?: string | number; productType?: string };
+};
+
+export type PlayQueueElement = {
+    uid: string;
+    mediaItemId: number | string;
+    context?: { type?: string; id?: string | number };
+};
+export type PlayQueue = { elements: PlayQueueElement[]; currentIndex: number };
+
+export type StoreMediaItem = { type?: MediaType; item?: any };
+
+/** The parts of TIDAL's redux state the plugins read. */
+export type PlayerState = {
+    playbackControls?: PlaybackControls;
+    playQueue?: Partial<PlayQueue> & { sourceEntityType?: string; sourceEntityId?: string | number };
+    content?: { mediaItems?: Record<string, StoreMediaItem> };
+};
+
+export const getPlayerState = () => redux.store.getState() as unknown as PlayerState;
+
+export const getPlaybackControls = () => getPlayerState()?.playbackControls;
+
+export function getPlayQueue(): PlayQueue {
+    const pq = getPlayerState()?.playQueue;
+    return {
+        elements: pq?.elements ?? [],
+        currentIndex: typeof pq?.currentIndex === "number" ? pq.currentIndex : -1,
+    };
+}
+
+export const getStoreMediaItem = (id: number | string): StoreMediaItem | undefined =>
+    getPlayerState()?.content?.mediaItems?.[String(id)];
+
+export function getMediaTypeById(id: number | string): MediaType | undefined {
+    return getStoreMediaItem(id)?.type;
+}
+
+/** The playback position, extrapolated from the last sync while playing. */
+export function getCurrentSeekSeconds(): number {
+    const pc = getPlaybackControls();
+    if (!pc) return 0;
+    const base = Number(pc.latestCurrentTime ?? 0);
+    if (pc.playbackState === "PLAYING" && typeof pc.latestCurrentTimeSyncTimestamp === "number") {
+        const elapsed = (Date.now() - pc.latestCurrentTimeSyncTimestamp) / 1000;
+        const duration = Number(pc.playbackContext?.actualDuration ?? Infinity);
+        return Math.max(0, Math.min(duration, base + elapsed));
+    }
+    return base;
+}
@@ -0,0 +1,101 @@
+import { describe, test, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { CacheEntry, PersistentCache } from "../src/cache";
+
+describe("PersistentCache", () => {
+    afterEach(() => mock.timers.reset());
+
+    test("stores values in the record it was given", () => {
+        const record: Record<string, CacheEntry<number>> = {};
+        const cache = new PersistentCache(record);
+        cache.set("a", 1);
+
+        assert.equal(cache.get("a"), 1);
+        assert.equal(record.a.value, 1);
+        assert.equal(new PersistentCache(record).get("a"), 1);
+    });
+
+    test("evicts the least recently used entries beyond maxSize", () => {
+        mock.timers.enable({ apis: ["Date"], now: 0 });
+        const cache = new PersistentCache<number>({}, { maxSize: 2 });
+        cache.set("a", 1);
+        mock.timers.tick(1);
+        cache.set("b", 2);
+        mock.timers.tick(1);
+        cache.get("a");
+        mock.timers.tick(1);
+        cache.set("c", 3);
+
+        assert.deepEqual(cache.values().sort(), [1, 3]);
+        assert.equal(cache.has("b"), false);
+    });
+
+    test("keeps reads in memory until the next write or flush", () => {
+        mock.timers.enable({ apis: ["Date"], now: 0 });
+        const record: Record<string, CacheEntry<number>> = {};
+        const cache = new PersistentCache(record);
+        cache.set("a", 1);
+        mock.timers.tick(5);
+        cache.get("a");
+        assert.equal(record.a.lastUsed, 0);
+
+        cache.flush();
+        assert.equal(record.a.lastUsed, 5);
+        mock.timers.tick(5);
+        cache.get("a");
+        cache.set("b", 2);
+        assert.equal(record.a.lastUsed, 10);
+    });
+
+    test("restores the recency order from the record", () => {
+        const record: Record<string, CacheEntry<number>> = {
+            a: { value: 1, storedAt: 0, lastUsed: 2 },
+            b: { value: 2, storedAt: 0, lastUsed: 1 },
+        };
+        const cache = new PersistentCache(record, { maxSize: 2 });
+        cache.set("c", 3);
+        assert.deepEqual(Object.keys(record).sort(), ["a", "c"]);
+        assert.equal(cache.size, 2);
+    });
+
+    test("expires entries after ttlMs", () => {
+        mock.timers.enable({ apis: ["Date"], now: 0 });
+        const cache = new PersistentCache<number>({}, { ttlMs: 1000 });
+        cache.set("a", 1);
+        mock.timers.tick(999);
+        assert.equal(cache.get("a"), 1);
+        mock.timers.tick(1);
+        assert.equal(cache.get("a"), undefined);
+        assert.equal(cache.size, 0);
+    });
+
+    test("drops entries stored in an older format", () => {
+        const record = { a: { trackId: 1, lastUsed: 0 } } as unknown as Record<string, CacheEntry<number>>;
+        assert.equal(new PersistentCache(record).get("a"), undefined);
+        assert.deepEqual(record, {});
+    });
+
+    test("drops bare timestamps stored before entries were wrapped", () => {
+        const record = { a: 1700000000000, b: null } as unknown as Record<string, CacheEntry<true>>;
+        const cache = new PersistentCache(record);
+        assert.equal(cache.has("a"), false);
+        assert.equal(cache.size, 0);
+        assert.deepEqual(record, {});
+    });
+
+    test("returns the stored copy so later changes persist", () => {
+        const record: Record<string, CacheEntry<{ n: number }>> = {};
+        const stored = new PersistentCache(record).set("a", { n: 1 });
+        stored.n = 2;
+        assert.equal(record.a.value.n, 2);
+    });
+
+    test("clears in place", () => {
+        const record: Record<string, CacheEntry<number>> = {};
+        const cache = new PersistentCache(record);
+        cache.set("a", 1);
+        cache.clear();
+        assert.equal(cache.size, 0);
+        assert.deepEqual(record, {});
+    });
+});
@@ -0,0 +1,184 @@
+export const Priority = {
+    CURRENT: 0,
+    NORMAL: 1,
+    PREFETCH: 2,
+} as const;
+export type Priority = (typeof Priority)[keyof typeof Priority];
+
+export type ScheduleOptions = {
+    priority?: Priority;
+    signal?: AbortSignal;
+};
+
+export type SchedulerOptions = {
+    concurrency?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+};
+
+export class HttpError extends Error {
+    constructor(public readonly status: number, public readonly retryAfterMs?: number) {
+        super(`Request failed with status ${status}`);
+        this.name = "HttpError";
+    }
+}
+
+export const isAbortError = (err: unknown) => (err as Error)?.name === "AbortError";
+
+// fetch rejects with a TypeError carrying one of these messages when the network fails (Chromium, Node, Firefox, Safari)
+const NETWORK_ERROR_MESSAGE = /^(Failed to fetch|fetch failed|NetworkError when attempting to fetch resource\.?|Load failed)$/;
+
+/** A fetch that failed before any response arrived, as opposed to a TypeError from a bug. */
+export const isNetworkError = (err: unknown) => err instanceof TypeError && NETWORK_ERROR_MESSAGE.test(err.message);
+
+/** Errors worth retrying later: cancellations, rate limits, server errors and network failures. */
+export function isTransientError(err: unknown): boolean {
+    if (isAbortError(err)) return true;
+    if (err instanceof HttpError) return err.status === 429 || err.status >= 500;
+    return isNetworkError(err);
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortReason(signal));
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+type QueuedTask = {
+    priority: Priority;
+    signal?: AbortSignal;
+    start: () => void;
+};
+
+export class RequestScheduler {
+    private readonly concurrency: number;
+    private readonly maxRetries: number;
+    private readonly baseDelayMs: number;
+    private readonly maxDelayMs: number;
+
+    private readonly queue: QueuedTask[] = [];
+    private active = 0;
+    private pausedUntil = 0;
+    private resumeTimer?: ReturnType<typeof setTimeout>;
+
+    constructor({ concurrency = 4, maxRetries = 4, baseDelayMs = 500, maxDelayMs = 30_000 }: SchedulerOptions = {}) {
+        this.concurrency = concurrency;
+        this.maxRetries = maxRetries;
+        this.baseDelayMs = baseDelayMs;
+        this.maxDelayMs = maxDelayMs;
+    }
+
+    /** Runs `task` once a slot is free, ahead of any queued task with a lower priority. */
+    schedule<T>(task: (signal?: AbortSignal) => Promise<T>, { priority = Priority.NORMAL, signal }: ScheduleOptions = {}): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) return reject(abortReason(signal));
+
+            const queued: QueuedTask = {
+                priority,
+                signal,
+                start: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    this.active++;
+                    task(signal)
+                        .then(resolve, reject)
+                        .finally(() => {
+                            this.active--;
+                            this.drain();
+                        });
+                },
+            };
+            const onAbort = () => {
+                const index = this.queue.indexOf(queued);
+                if (index >= 0) this.queue.splice(index, 1);
+                reject(abortReason(signal!));
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            this.enqueue(queued);
+            this.drain();
+        });
+    }
+
+    /** Moves the tasks queued with `signal` up to `priority`, for work that something more urgent now waits on. */
+    raisePriority(signal: AbortSignal, priority: Priority) {
+        for (const queued of this.queue.filter(t => t.signal === signal && t.priority > priority)) {
+            this.queue.splice(this.queue.indexOf(queued), 1);
+            queued.priority = priority;
+            this.enqueue(queued);
+        }
+    }
+
+    /**
+     * Fetches through the queue, retrying rate limits and server errors with exponential backoff.
+     * A 429 pauses the whole queue for its Retry-After, since the limit applies to every request.
+     */
+    async fetch(input: string, init: RequestInit = {}, options: ScheduleOptions = {}): Promise<Response> {
+        const signal = options.signal ?? init.signal ?? undefined;
+        for (let attempt = 0; ; attempt++) {
+            const res = await this.schedule(() => fetch(input, { ...init, signal }), { ...options, signal });
+            if (res.ok || !(res.status === 429 || res.status >= 500)) return res;
+
+            const retryAfterMs = parseRetryAfter(res.headers.get("Retry-After"));
+            if (attempt >= this.maxRetries) throw new HttpError(res.status, retryAfterMs);
+
+            const delayMs = Math.min(this.maxDelayMs, retryAfterMs ?? this.baseDelayMs * 2 ** attempt);
+            if (res.status === 429) this.pause(delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+
+    private enqueue(queued: QueuedTask) {
+        const index = this.queue.findIndex(t => t.priority > queued.priority);
+        this.queue.splice(index < 0 ? this.queue.length : index, 0, queued);
+    }
+
+    private pause(ms: number) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    private drain() {
+        const waitMs = this.pausedUntil - Date.now();
+        if (waitMs > 0) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = setTimeout(() => this.drain(), waitMs);
+            return;
+        }
+        while (this.active < this.concurrency && this.queue.length > 0) {
+            this.queue.shift()!.start();
+        }
+    }
+}
+
+const GLOBAL_KEY = Symbol.for("@renskursa/request-scheduler");
+
+type SchedulerHolder = typeof globalThis & { [GLOBAL_KEY]?: RequestScheduler };
+
+/** The scheduler shared by every plugin loaded in the client. */
+export function getScheduler(): RequestScheduler {
+    return ((globalThis as SchedulerHolder)[GLOBAL_KEY] ??= new RequestScheduler());
+}
+
+/** Replaces the shared scheduler, so tests can run without backoff delays. */
+export function setScheduler(scheduler: RequestScheduler) {
+    (globalThis as SchedulerHolder)[GLOBAL_KEY] = scheduler;
+}
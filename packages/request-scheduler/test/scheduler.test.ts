@@ -0,0 +1,129 @@
+import { describe, test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { RequestScheduler, Priority, HttpError, isTransientError } from "../src/index";
+
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => (resolve = r));
+    return { promise, resolve };
+};
+
+describe("RequestScheduler", () => {
+    const originalFetch = globalThis.fetch;
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    test("never runs more tasks than the concurrency cap", async () => {
+        const scheduler = new RequestScheduler({ concurrency: 2 });
+        let running = 0;
+        let peak = 0;
+        await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(async () => {
+            peak = Math.max(peak, ++running);
+            await new Promise(r => setTimeout(r, 5));
+            running--;
+        })));
+        assert.equal(peak, 2);
+    });
+
+    test("starts queued current-item work before prefetches", async () => {
+        const scheduler = new RequestScheduler({ concurrency: 1 });
+        const blocker = deferred();
+        const order: string[] = [];
+
+        const first = scheduler.schedule(() => blocker.promise);
+        const prefetch = scheduler.schedule(async () => { order.push("prefetch"); }, { priority: Priority.PREFETCH });
+        const current = scheduler.schedule(async () => { order.push("current"); }, { priority: Priority.CURRENT });
+
+        blocker.resolve();
+        await Promise.all([first, prefetch, current]);
+        assert.deepEqual(order, ["current", "prefetch"]);
+    });
+
+    test("raises queued tasks to a more urgent priority", async () => {
+        const scheduler = new RequestScheduler({ concurrency: 1 });
+        const blocker = deferred();
+        const controller = new AbortController();
+        const order: string[] = [];
+
+        const first = scheduler.schedule(() => blocker.promise);
+        const normal = scheduler.schedule(async () => { order.push("normal"); });
+        const prefetch = scheduler.schedule(async () => { order.push("prefetch"); }, { priority: Priority.PREFETCH, signal: controller.signal });
+        scheduler.raisePriority(controller.signal, Priority.CURRENT);
+
+        blocker.resolve();
+        await Promise.all([first, normal, prefetch]);
+        assert.deepEqual(order, ["prefetch", "normal"]);
+    });
+
+    test("drops queued tasks whose signal is aborted", async () => {
+        const scheduler = new RequestScheduler({ concurrency: 1 });
+        const blocker = deferred();
+        const controller = new AbortController();
+        let ran = false;
+
+        const first = scheduler.schedule(() => blocker.promise);
+        const stale = scheduler.schedule(async () => { ran = true; }, { signal: controller.signal });
+        controller.abort();
+        blocker.resolve();
+
+        await first;
+        await assert.rejects(stale, { name: "AbortError" });
+        assert.equal(ran, false);
+    });
+
+    test("retries a 429 after its Retry-After", async () => {
+        const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+        let calls = 0;
+        globalThis.fetch = async () => ++calls === 1
+            ? new Response(null, { status: 429, headers: { "Retry-After": "0" } })
+            : new Response("ok");
+
+        const res = await scheduler.fetch("https://example.test/search");
+        assert.equal(await res.text(), "ok");
+        assert.equal(calls, 2);
+    });
+
+    test("gives up on server errors after the retry limit", async () => {
+        const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1 });
+        let calls = 0;
+        globalThis.fetch = async () => {
+            calls++;
+            return new Response(null, { status: 503 });
+        };
+
+        await assert.rejects(scheduler.fetch("https://example.test/search"), (err: unknown) => err instanceof HttpError && err.status === 503);
+        assert.equal(calls, 3);
+    });
+
+    test("returns client errors without retrying", async () => {
+        const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+        let calls = 0;
+        globalThis.fetch = async () => {
+            calls++;
+            return new Response(null, { status: 404 });
+        };
+
+        assert.equal((await scheduler.fetch("https://example.test/search")).status, 404);
+        assert.equal(calls, 1);
+    });
+});
+
+describe("isTransientError", () => {
+    test("treats rate limits, server errors, network failures and aborts as transient", () => {
+        assert.equal(isTransientError(new HttpError(429)), true);
+        assert.equal(isTransientError(new HttpError(502)), true);
+        assert.equal(isTransientError(new TypeError("Failed to fetch")), true);
+        assert.equal(isTransientError(new DOMException("aborted", "AbortError")), true);
+    });
+
+    test("treats client errors as permanent", () => {
+        assert.equal(isTransientError(new HttpError(404)), false);
+        assert.equal(isTransientError(new Error("bad payload")), false);
+    });
+
+    test("treats TypeErrors other than network failures as bugs", () => {
+        assert.equal(isTransientError(new TypeError("fetch failed")), true);
+        assert.equal(isTransientError(new TypeError("Cannot read properties of undefined (reading 'id')")), false);
+    });
+});
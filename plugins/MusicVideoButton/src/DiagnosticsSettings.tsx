@@ -0,0 +1,66 @@
+import React from "react";
+import { LunaButtonSetting, LunaNumberSetting } from "@luna/ui";
+import { getLookups, clearLookups, formatCandidate, formatLookupSummary, formatReport } from "./diagnostics";
+import { storage } from "./Settings";
+
+export const DiagnosticsSettings = () => {
+  const [lookups, setLookups] = React.useState(() => [...getLookups()]);
+  const [status, setStatus] = React.useState("");
+  const [limit, setLimit] = React.useState<number>(storage.diagnosticsLimit);
+
+  const refresh = () => setLookups([...getLookups()]);
+
+  return (
+    <>
+      <LunaButtonSetting
+        title="Recent lookups"
+        desc={lookups.length > 0 ? `Why the last ${lookups.length} lookups did or did not find a video` : "No lookups since the app started"}
+        onClick={refresh}
+      >
+        Refresh
+      </LunaButtonSetting>
+      <LunaNumberSetting
+        title="Lookups kept"
+        desc="How many recent lookups to keep. Background lookups for prefetching and list badges are dropped first"
+        min={1}
+        max={200}
+        value={limit}
+        onNumber={(num: number) => setLimit((storage.diagnosticsLimit = num))}
+      />
+      {lookups.map(lookup => (
+        <details key={`${lookup.source}-${lookup.query}`} style={{ fontSize: "0.8rem", padding: "4px 0" }}>
+          <summary>
+            {lookup.query}: {formatLookupSummary(lookup)}
+          </summary>
+          {lookup.candidates.map(candidate => (
+            <div key={`${candidate.type}-${candidate.id}`} style={{ opacity: candidate.outcome === "chosen" ? 1 : 0.7, paddingLeft: 12 }}>
+              {formatCandidate(candidate)}
+            </div>
+          ))}
+        </details>
+      ))}
+      <LunaButtonSetting
+        title="Copy report"
+        desc={status || "Copy the recent lookups to the clipboard for a bug report"}
+        onClick={() =>
+          navigator.clipboard.writeText(formatReport(lookups))
+            .then(() => setStatus(`Copied ${lookups.length} lookups`))
+            .catch(() => setStatus("Copying to the clipboard failed"))
+        }
+      >
+        Copy
+      </LunaButtonSetting>
+      <LunaButtonSetting
+        title="Clear lookups"
+        desc="Forget the recorded lookups"
+        onClick={() => {
+          clearLookups();
+          setStatus("");
+          refresh();
+        }}
+      >
+        Clear
+      </LunaButtonSetting>
+    </>
+  );
+};
@@ -0,0 +1,90 @@
+import React from "react";
+import { LunaButtonSetting, LunaTextSetting } from "@luna/ui";
+import { pinStorage, setPin, removePin, exportPins, importPins, parseMediaId } from "./pins";
+
+export const PinSettings = () => {
+  const [pins, setPins] = React.useState(() => [...pinStorage.pins]);
+  const [trackInput, setTrackInput] = React.useState("");
+  const [videoInput, setVideoInput] = React.useState("");
+  const [importInput, setImportInput] = React.useState("");
+  const [addStatus, setAddStatus] = React.useState("");
+  const [importStatus, setImportStatus] = React.useState("");
+
+  const refresh = () => setPins([...pinStorage.pins]);
+
+  const addPin = () => {
+    const trackId = parseMediaId(trackInput);
+    const videoId = videoInput.trim() === "" ? null : parseMediaId(videoInput);
+    if (trackId === undefined || videoId === undefined) {
+      setAddStatus("Enter a valid track id and either a video id or nothing to block videos");
+      return;
+    }
+    setPin({ trackId, videoId });
+    setTrackInput("");
+    setVideoInput("");
+    setAddStatus("");
+    refresh();
+  };
+
+  return (
+    <>
+      <LunaTextSetting
+        title="Pin track"
+        desc="Track id or link to pin"
+        value={trackInput}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTrackInput(e.target.value)}
+      />
+      <LunaTextSetting
+        title="Pin video"
+        desc="Video id or link to always use for the track. Leave empty to never offer a video"
+        value={videoInput}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVideoInput(e.target.value)}
+      />
+      <LunaButtonSetting title="Add pin" desc={addStatus || "Pinned mappings always win over search results"} onClick={addPin}>
+        Add
+      </LunaButtonSetting>
+      {pins.map(pin => (
+        <LunaButtonSetting
+          key={pin.trackId}
+          title={pin.videoId === null ? `Track ${pin.trackId} ↛ no video` : `Track ${pin.trackId} ↔ Video ${pin.videoId}`}
+          desc="Pinned mapping"
+          onClick={() => {
+            removePin(pin.trackId);
+            refresh();
+          }}
+        >
+          Remove
+        </LunaButtonSetting>
+      ))}
+      <LunaButtonSetting
+        title="Export pins"
+        desc={`Copy ${pins.length} pinned mappings to the clipboard as JSON`}
+        onClick={() => navigator.clipboard.writeText(exportPins()).catch(() => {})}
+      >
+        Export
+      </LunaButtonSetting>
+      <LunaTextSetting
+        title="Import pins"
+        desc="Paste an exported JSON list. Existing pins for the same track are replaced"
+        value={importInput}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setImportInput(e.target.value)}
+      />
+      <LunaButtonSetting
+        title="Import"
+        desc={importStatus || "Merge the pasted pins into the list"}
+        onClick={() => {
+          try {
+            const count = importPins(importInput);
+            setImportInput("");
+            setImportStatus(`Imported ${count} pins`);
+            refresh();
+          } catch (err) {
+            setImportStatus(`Import failed: ${(err as Error).message}`);
+          }
+        }}
+      >
+        Import
+      </LunaButtonSetting>
+    </>
+  );
+};
@@ -1,26 +1,159 @@
 import React from "react";
 import { ReactiveStore } from "@luna/core";
-import { LunaSettings, LunaSwitchSetting } from "@luna/ui";
+import { LunaSettings, LunaSwitchSetting, LunaButtonSetting, LunaNumberSetting, LunaSelectSetting, LunaSelectItem, LunaTextSetting } from "@luna/ui";
+import { getCacheSize, clearMappings, clearFailedSearches } from "./cache";
+import { PinSettings } from "./PinSettings";
+import { DiagnosticsSettings } from "./DiagnosticsSettings";
+import { VocabularySettings } from "./VocabularySettings";
+import { convertQueue } from "./queue";
+import { formatShortcut, getShortcutConflict, shortcutFromEvent } from "./shortcut";
 
 export const storage = await ReactiveStore.getPluginStorage("MusicVideoButton", {
-  seekOnSwitch: false
+  seekOnSwitch: false,
+  minMatchScore: 200,
+  playbackPolicy: "manual" as "manual" | "video" | "audio",
+  policyArtistExceptions: "",
+  policyPlaylistExceptions: "",
+  toggleShortcut: "Alt+M",
+  mediaSessionToggle: false,
+  showRowBadges: false,
+  diagnosticsLimit: 20
 });
 
+const describeShortcut = (shortcut: string) => {
+  if (!shortcut) return "Click here and press a key combination. Backspace removes the shortcut";
+  const conflict = getShortcutConflict(shortcut);
+  return conflict ? `Warning: ${conflict}` : "Switch between the audio and video version from anywhere. Backspace removes the shortcut";
+};
+
 export const Settings = () => {
   const [seekOnSwitch, setSeekOnSwitch] = React.useState<boolean>(storage.seekOnSwitch);
+  const [minMatchScore, setMinMatchScore] = React.useState<number>(storage.minMatchScore);
+  const [playbackPolicy, setPlaybackPolicy] = React.useState<string>(storage.playbackPolicy);
+  const [artistExceptions, setArtistExceptions] = React.useState<string>(storage.policyArtistExceptions);
+  const [playlistExceptions, setPlaylistExceptions] = React.useState<string>(storage.policyPlaylistExceptions);
+  const [cacheSize, setCacheSize] = React.useState(getCacheSize);
+  const [toggleShortcut, setToggleShortcut] = React.useState<string>(storage.toggleShortcut);
+  const [mediaSessionToggle, setMediaSessionToggle] = React.useState<boolean>(storage.mediaSessionToggle);
+  const [showRowBadges, setShowRowBadges] = React.useState<boolean>(storage.showRowBadges);
 
   return (
     <LunaSettings>
       <LunaSwitchSetting
         {...({
           title: "Resume position when switching",
-          desc: "Resume playback from the same position when switching between audio and video versions. (Audio doesn't necessarily match up)",
+          desc: "Resume playback from the same position when switching between audio and video versions. The offset between them is estimated from their lengths and can be nudged after switching",
           checked: seekOnSwitch,
           onChange: (_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => {
             setSeekOnSwitch((storage.seekOnSwitch = checked));
           },
         } as any)}
       />
+      <LunaTextSetting
+        {...({
+          title: "Toggle shortcut",
+          desc: describeShortcut(toggleShortcut),
+          value: toggleShortcut,
+          onChange: () => {},
+          onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === "Tab") return;
+            e.preventDefault();
+            if (e.key === "Backspace" || e.key === "Delete") {
+              setToggleShortcut((storage.toggleShortcut = ""));
+              return;
+            }
+            const shortcut = shortcutFromEvent(e.nativeEvent);
+            if (shortcut) setToggleShortcut((storage.toggleShortcut = formatShortcut(shortcut)));
+          },
+        } as any)}
+      />
+      <LunaSwitchSetting
+        {...({
+          title: "Media controls toggle",
+          desc: "Let hardware and system media controls switch between audio and video through their camera toggle, where the system shows one",
+          checked: mediaSessionToggle,
+          onChange: (_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => {
+            setMediaSessionToggle((storage.mediaSessionToggle = checked));
+          },
+        } as any)}
+      />
+      <LunaSwitchSetting
+        {...({
+          title: "Video badges in lists",
+          desc: "Mark tracks in playlists and albums that have a music video. Tracks are looked up in the background as they scroll into view; click a badge to play the video",
+          checked: showRowBadges,
+          onChange: (_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => {
+            setShowRowBadges((storage.showRowBadges = checked));
+          },
+        } as any)}
+      />
+      <LunaSelectSetting
+        title="Playback policy"
+        desc="Switch automatically whenever a new item starts playing"
+        value={playbackPolicy}
+        onChange={(e: React.ChangeEvent<{ value: unknown }>) => setPlaybackPolicy((storage.playbackPolicy = e.target.value as typeof storage.playbackPolicy))}
+      >
+        <LunaSelectItem value="manual">Manual</LunaSelectItem>
+        <LunaSelectItem value="video">Always prefer video when a matching video exists</LunaSelectItem>
+        <LunaSelectItem value="audio">Always prefer audio for videos from radio and mixes</LunaSelectItem>
+      </LunaSelectSetting>
+      <LunaTextSetting
+        title="Policy artist exceptions"
+        desc="Comma-separated artist names or ids the playback policy leaves alone"
+        value={artistExceptions}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setArtistExceptions((storage.policyArtistExceptions = e.target.value))}
+      />
+      <LunaTextSetting
+        title="Policy playlist exceptions"
+        desc="Comma-separated playlist ids or links the playback policy leaves alone"
+        value={playlistExceptions}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPlaylistExceptions((storage.policyPlaylistExceptions = e.target.value))}
+      />
+      <LunaNumberSetting
+        title="Minimum match score"
+        desc="Candidates scoring below this are ignored. Title matches score up to 1000, quartered when no artist matches, plus up to 200 for a close duration and 300 for a shared album or ISRC"
+        min={0}
+        max={1500}
+        value={minMatchScore}
+        onNumber={(num: number) => setMinMatchScore((storage.minMatchScore = num))}
+      />
+      <LunaButtonSetting
+        title="Video mode"
+        desc="Replace the playing and upcoming tracks in the play queue that have a music video with that video"
+        onClick={() => convertQueue("video")}
+      >
+        Convert
+      </LunaButtonSetting>
+      <LunaButtonSetting
+        title="Audio mode"
+        desc="Replace the playing and upcoming music videos in the play queue with their audio tracks"
+        onClick={() => convertQueue("audio")}
+      >
+        Convert
+      </LunaButtonSetting>
+      <LunaButtonSetting
+        title="Clear cached mappings"
+        desc={`${cacheSize.mappings} track/video pairs are remembered between sessions`}
+        onClick={() => {
+          clearMappings();
+          setCacheSize(getCacheSize());
+        }}
+      >
+        Clear
+      </LunaButtonSetting>
+      <LunaButtonSetting
+        title="Clear failed lookups"
+        desc={`${cacheSize.failed} songs without a match are skipped until they are retried after a day`}
+        onClick={() => {
+          clearFailedSearches();
+          setCacheSize(getCacheSize());
+        }}
+      >
+        Clear
+      </LunaButtonSetting>
+      <VocabularySettings />
+      <PinSettings />
+      <DiagnosticsSettings />
     </LunaSettings>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,47 @@
+import React from "react";
+import { LunaSwitchSetting, LunaTextSetting } from "@luna/ui";
+import { vocabularyStorage, LANGUAGE_PACKS, MATCH_WORD_CATEGORIES, MatchWordCategory } from "./vocabulary";
+
+const CATEGORY_DESCRIPTIONS: Record<MatchWordCategory, string> = {
+  OFFICIAL: "Marks a video as the official one",
+  VIDEO: "Marks an upload as a music video",
+  QUALITY: "Quality tags allowed after the title",
+  REJECT: "Uploads containing these are never matched",
+  VERSIONS: "Version markers that must appear in both titles to match",
+};
+
+export const VocabularySettings = () => {
+  const [packs, setPacks] = React.useState<string[]>(() => [...vocabularyStorage.languagePacks]);
+  const [customWords, setCustomWords] = React.useState(() => ({ ...vocabularyStorage.customWords }));
+
+  return (
+    <>
+      {Object.entries(LANGUAGE_PACKS).map(([code, pack]) => (
+        <LunaSwitchSetting
+          key={code}
+          {...({
+            title: `${pack.name} match words`,
+            desc: `Recognize ${pack.name} official, live and remix markers in titles`,
+            checked: packs.includes(code),
+            onChange: (_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => {
+              const next = checked ? [...packs, code] : packs.filter(p => p !== code);
+              setPacks((vocabularyStorage.languagePacks = next));
+            },
+          } as any)}
+        />
+      ))}
+      {MATCH_WORD_CATEGORIES.map(category => (
+        <LunaTextSetting
+          key={category}
+          title={`Extra ${category.toLowerCase()} words`}
+          desc={`${CATEGORY_DESCRIPTIONS[category]}. Comma-separated`}
+          value={customWords[category]}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            vocabularyStorage.customWords = { ...vocabularyStorage.customWords, [category]: e.target.value };
+            setCustomWords({ ...vocabularyStorage.customWords });
+          }}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,75 @@
+import { ReactiveStore } from "@luna/core";
+import { CacheEntry, PersistentCache } from "@renskursa/plugin-common";
+
+export type SongVideoMapping = { trackId: number; videoId: number };
+
+const MAX_MAPPINGS = 1000;
+const MAX_FAILED = 1000;
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000; // Retry failed searches after a day
+
+export const cacheStorage = await ReactiveStore.getPluginStorage("MusicVideoButton.cache", {
+    mappings: {} as Record<string, CacheEntry<SongVideoMapping>>,
+    failed: {} as Record<string, CacheEntry<true>>,
+    offsets: {} as Record<string, CacheEntry<number>>,
+});
+
+const mappings = new PersistentCache(cacheStorage.mappings, { maxSize: MAX_MAPPINGS });
+const failedSearches = new PersistentCache(cacheStorage.failed, { maxSize: MAX_FAILED, ttlMs: FAILED_TTL_MS });
+const offsets = new PersistentCache(cacheStorage.offsets, { maxSize: MAX_MAPPINGS });
+
+export function getCachedMapping(id: number): SongVideoMapping | undefined {
+    const entry = mappings.get(String(id));
+    if (!entry) return undefined;
+
+    // Keep both directions of the pair equally fresh
+    mappings.get(String(entry.trackId));
+    mappings.get(String(entry.videoId));
+    return { trackId: entry.trackId, videoId: entry.videoId };
+}
+
+export function setCachedMapping(mapping: SongVideoMapping) {
+    mappings.set(String(mapping.trackId), { ...mapping });
+    mappings.set(String(mapping.videoId), { ...mapping });
+}
+
+export function isFailedSearch(searchKey: string): boolean {
+    return failedSearches.has(searchKey);
+}
+
+export function markFailedSearch(searchKey: string) {
+    failedSearches.set(searchKey, true);
+}
+
+const getOffsetKey = (mapping: SongVideoMapping) => `${mapping.trackId}:${mapping.videoId}`;
+
+/** Seconds to add to a track position to reach the same moment in the video. */
+export function getMappingOffset(mapping: SongVideoMapping): number | undefined {
+    return offsets.get(getOffsetKey(mapping));
+}
+
+export function setMappingOffset(mapping: SongVideoMapping, offset: number) {
+    offsets.set(getOffsetKey(mapping), offset);
+}
+
+export function getCacheSize() {
+    const pairs = new Set(mappings.values().map(m => `${m.trackId}:${m.videoId}`));
+    return {
+        mappings: pairs.size,
+        failed: failedSearches.size,
+    };
+}
+
+/** Writes recent reads to the store, so the least recently used entries are still known after a restart. */
+export function flushCaches() {
+    mappings.flush();
+    failedSearches.flush();
+    offsets.flush();
+}
+
+export function clearMappings() {
+    mappings.clear();
+}
+
+export function clearFailedSearches() {
+    failedSearches.clear();
+}
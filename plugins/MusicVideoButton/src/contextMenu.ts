@@ -0,0 +1,86 @@
+import type { LunaUnload } from "@luna/core";
+import { ContextMenu, MediaItem } from "@luna/lib";
+import { Priority } from "@renskursa/request-scheduler";
+import { resolveMapping } from "./mapping";
+import { playNow, queueNext } from "./playback";
+import { getEffectiveType } from "./utils";
+
+const ROW_SELECTOR = 'div[data-test="tracklist-row"]';
+
+// A row menu opens right after the click on its row, so an older click is from some other menu
+const ROW_MENU_WINDOW_MS = 1000;
+
+let menuRow: { trackId: number; at: number } | undefined;
+
+const rememberMenuRow = (event: Event) => {
+    const row = (event.target as Element | null)?.closest?.(ROW_SELECTOR);
+    const trackId = row?.getAttribute('data-track-id') ??
+        row?.querySelector('a[href*="/track/"]')?.getAttribute('href')?.match(/\/track\/(\d+)/)?.[1];
+    menuRow = trackId ? { trackId: Number(trackId), at: Date.now() } : undefined;
+};
+
+/** The track of the row whose menu is opening, taken once. */
+function takeMenuRow(): number | undefined {
+    const row = menuRow;
+    menuRow = undefined;
+    return row && Date.now() - row.at < ROW_MENU_WINDOW_MS ? row.trackId : undefined;
+}
+
+async function getMenuItem(mediaCollection: { count(): Promise<number>; mediaItems(): Promise<AsyncIterable<MediaItem>> }, rowTrackId?: number) {
+    // A row that is part of a selection opens a menu for all of it, so offer the row that was clicked
+    if ((await mediaCollection.count()) !== 1) {
+        return rowTrackId !== undefined ? MediaItem.fromId(rowTrackId, 'track') : undefined;
+    }
+    for await (const item of await mediaCollection.mediaItems()) return item;
+    return undefined;
+}
+
+/**
+ * Adds "Play music video" / "Play audio version" entries to track menus and track-row menus.
+ * The entries show up once `resolveMapping` confirms a counterpart, if that menu is still open.
+ */
+export function addContextMenuEntries(unloads: Set<LunaUnload>) {
+    const playButton = ContextMenu.addButton(unloads);
+    const queueButton = ContextMenu.addButton(unloads);
+    // The buttons are shared by every menu, so only the most recently opened one may set them up
+    let menuSeq = 0;
+    let menuLookup: AbortController | undefined;
+
+    // Right-clicks and the row's own menu button both open the menu for that row
+    document.addEventListener('contextmenu', rememberMenuRow, true);
+    document.addEventListener('click', rememberMenuRow, true);
+    unloads.add(() => {
+        document.removeEventListener('contextmenu', rememberMenuRow, true);
+        document.removeEventListener('click', rememberMenuRow, true);
+        menuLookup?.abort();
+    });
+
+    ContextMenu.onMediaItem(unloads, async ({ mediaCollection, contextMenu }) => {
+        const seq = ++menuSeq;
+        // The lookup for a menu that was replaced is no longer needed
+        menuLookup?.abort();
+        const controller = menuLookup = new AbortController();
+        const isCurrent = () => seq === menuSeq && contextMenu.isConnected;
+
+        const media = await getMenuItem(mediaCollection, takeMenuRow()).catch(() => undefined);
+        if (!media || !isCurrent()) return;
+
+        const type = getEffectiveType(media, media.contentType);
+        if (type !== 'track' && type !== 'video') return;
+
+        const mapping = await resolveMapping(media, { priority: Priority.CURRENT, signal: controller.signal }).catch(() => undefined);
+        if (!mapping || !isCurrent()) return;
+
+        const toVideo = type === 'track';
+        const targetId = toVideo ? mapping.videoId : mapping.trackId;
+        const targetType = toVideo ? 'video' : 'track';
+
+        playButton.text = toVideo ? 'Play music video' : 'Play audio version';
+        playButton.onClick(() => playNow(targetId, targetType));
+        queueButton.text = toVideo ? 'Play music video next' : 'Play audio version next';
+        queueButton.onClick(() => queueNext(targetId, targetType));
+
+        await playButton.show(contextMenu);
+        if (isCurrent()) await queueButton.show(contextMenu);
+    });
+}
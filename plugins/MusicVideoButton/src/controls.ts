@@ -0,0 +1,50 @@
+import type { LunaUnload } from "@luna/core";
+import { store as obyStore } from "oby";
+import { matchesShortcut, noteAppShortcut, parseShortcut } from "./shortcut";
+import { storage } from "./Settings";
+import { trace } from "./tracer";
+
+// Media sessions have no "switch version" action; the camera toggle is the closest one OS controls show
+const MEDIA_SESSION_ACTION = "togglecamera" as MediaSessionAction;
+
+const isEditable = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/** Calls `onToggle` whenever the shortcut from Settings is pressed outside a text field. */
+export function bindToggleShortcut(unloads: Set<LunaUnload>, onToggle: () => unknown) {
+    const onKeyDown = (event: KeyboardEvent) => {
+        const shortcut = parseShortcut(storage.toggleShortcut);
+        if (!shortcut || event.repeat || isEditable(event.target) || !matchesShortcut(event, shortcut)) return;
+
+        event.preventDefault();
+        event.stopPropagation();
+        onToggle();
+    };
+    // Runs after the app's own handlers, so Settings can warn about shortcuts the app already uses
+    const onHandledKeyDown = (event: KeyboardEvent) => {
+        if (event.defaultPrevented && !isEditable(event.target)) noteAppShortcut(event);
+    };
+    document.addEventListener('keydown', onKeyDown, true);
+    window.addEventListener('keydown', onHandledKeyDown);
+    unloads.add(() => {
+        document.removeEventListener('keydown', onKeyDown, true);
+        window.removeEventListener('keydown', onHandledKeyDown);
+    });
+}
+
+/** Lets hardware and OS media controls trigger `onToggle` while enabled in Settings. */
+export function bindMediaSessionToggle(unloads: Set<LunaUnload>, onToggle: () => unknown) {
+    const setHandler = (handler: MediaSessionActionHandler | null) => {
+        try {
+            navigator.mediaSession?.setActionHandler(MEDIA_SESSION_ACTION, handler);
+        } catch (err) {
+            // Older Chromium builds reject actions they don't know
+            trace.warn.withContext("Media session action not supported")(err as any);
+        }
+    };
+    const update = () => setHandler(storage.mediaSessionToggle ? () => onToggle() : null);
+
+    update();
+    unloads.add(obyStore.on(storage, update));
+    unloads.add(() => setHandler(null));
+}
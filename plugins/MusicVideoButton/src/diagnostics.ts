@@ -0,0 +1,140 @@
+import type { SongVideoMapping } from "./cache";
+import type { RankedCandidate } from "./mapping";
+import type { TitleMatch } from "./utils";
+import { storage } from "./Settings";
+
+export type CandidateOutcome = "chosen" | "inaccessible" | "outranked" | "below-threshold" | "rejected";
+
+/** What `findBestMatchingId` did with a candidate it tried. */
+export type CandidateDecision = { outcome: "chosen" | "inaccessible"; error?: string };
+
+export type CandidateDiagnostic = RankedCandidate & { outcome: CandidateOutcome; error?: string };
+
+export type LookupOutcome = "matched" | "no-match" | "blocked" | "search-failed" | "skipped";
+
+/** Where a lookup got its answer: a pin from Settings, the mapping cache, or a search. */
+export type LookupSource = "pin" | "cache" | "search";
+
+export type LookupDiagnostic = {
+    at: number;
+    query: string;
+    source: LookupSource;
+    /** Prefetches and list badges, as opposed to lookups for the playing item or a click. */
+    background: boolean;
+    outcome: LookupOutcome;
+    error?: string;
+    mapping?: SongVideoMapping;
+    candidates: CandidateDiagnostic[];
+};
+
+// Newest first, one entry per query and source
+const lookups: LookupDiagnostic[] = [];
+
+export function getLookups(): readonly LookupDiagnostic[] {
+    return lookups;
+}
+
+export function clearLookups() {
+    lookups.length = 0;
+}
+
+const isSameLookup = (a: LookupDiagnostic, b: Pick<LookupDiagnostic, "query" | "source">) => a.query === b.query && a.source === b.source;
+
+/** Keeps `lookup`, dropping background lookups first once there are more than Settings allows. */
+export function recordLookup(lookup: LookupDiagnostic) {
+    const index = lookups.findIndex(l => isSameLookup(l, lookup));
+    if (index >= 0) lookups.splice(index, 1);
+    lookups.unshift(lookup);
+
+    const limit = Math.max(1, storage.diagnosticsLimit);
+    while (lookups.length > limit) {
+        const background = lookups.map(l => l.background).lastIndexOf(true);
+        lookups.splice(background >= 0 ? background : lookups.length - 1, 1);
+    }
+}
+
+/** Notes a search skipped because it failed recently, keeping the record of that failure if there is one. */
+export function recordSkippedLookup(query: string, background: boolean) {
+    if (lookups.some(l => isSameLookup(l, { query, source: "search" }))) return;
+    recordLookup({
+        at: Date.now(),
+        query,
+        source: "search",
+        background,
+        outcome: "skipped",
+        error: "Search failed recently and is retried after a day",
+        candidates: [],
+    });
+}
+
+/** Notes a lookup answered by a pin or the cache, which has no candidates to show. */
+export function recordKnownLookup(query: string, source: "pin" | "cache", mapping: SongVideoMapping | undefined, background: boolean) {
+    recordLookup({ at: Date.now(), query, source, background, outcome: mapping ? "matched" : "blocked", mapping, candidates: [] });
+}
+
+export function describeCandidates(candidates: RankedCandidate[], decisions: Map<RankedCandidate, CandidateDecision>, minMatchScore: number): CandidateDiagnostic[] {
+    return candidates.map(candidate => {
+        const decision = decisions.get(candidate);
+        if (decision) return { ...candidate, ...decision };
+
+        const outcome: CandidateOutcome = candidate.score === 0 ? "rejected"
+            : candidate.score < minMatchScore ? "below-threshold"
+            : "outranked";
+        return { ...candidate, outcome };
+    });
+}
+
+export function describeTitleMatch({ rule, score, detail }: TitleMatch): string {
+    switch (rule) {
+        case "rejected-word": return `rejected for "${detail}"`;
+        case "version-mismatch": return `only one title is a "${detail}" version`;
+        case "base-mismatch": return `different song "${detail}"`;
+        case "strict-boundary": return "extra words after the title";
+        case "official":
+        case "video":
+        case "quality": return `${rule} keyword "${detail}" (${score})`;
+        case "exact": return `exact title (${score})`;
+        case "contains": return `title contained (${score})`;
+        case "compact": return `title contained ignoring spaces (${score})`;
+        case "word-overlap": return `${detail} words shared (${score})`;
+        case "no-overlap": return `only ${detail} words shared`;
+    }
+}
+
+const formatRatio = (value?: number) => value === undefined ? "?" : value.toFixed(2);
+
+export function formatCandidate(candidate: CandidateDiagnostic): string {
+    const { match } = candidate;
+    const signals = match.title.score > 0
+        ? ` · artist ${formatRatio(match.artist)} · duration ${formatRatio(match.duration)}${match.sharesRelease ? " · same release" : ""}`
+        : "";
+    const error = candidate.error ? `: ${candidate.error}` : "";
+    return `${candidate.type} ${candidate.id} "${candidate.title}" score ${candidate.score} ${candidate.outcome}${error} · ${describeTitleMatch(match.title)}${signals}`;
+}
+
+const SOURCE_LABELS: Record<LookupSource, string> = {
+    pin: "pinned in Settings",
+    cache: "cached from an earlier search",
+    search: "searched",
+};
+
+function describeOutcome(lookup: LookupDiagnostic): string {
+    switch (lookup.outcome) {
+        case "matched": return `track ${lookup.mapping?.trackId} ↔ video ${lookup.mapping?.videoId}`;
+        case "no-match": return `no match among ${lookup.candidates.length} candidates`;
+        case "blocked": return "never offered a video";
+        case "search-failed": return `search failed: ${lookup.error}`;
+        case "skipped": return lookup.error ?? "skipped";
+    }
+}
+
+export function formatLookupSummary(lookup: LookupDiagnostic): string {
+    return `${describeOutcome(lookup)} (${SOURCE_LABELS[lookup.source]}${lookup.background ? ", in the background" : ""})`;
+}
+
+export function formatReport(entries: readonly LookupDiagnostic[] = lookups): string {
+    return entries.map(lookup => [
+        `${new Date(lookup.at).toISOString()} "${lookup.query}": ${formatLookupSummary(lookup)}`,
+        ...lookup.candidates.map(candidate => `  ${formatCandidate(candidate)}`),
+    ].join("\n")).join("\n\n");
+}
@@ -0,0 +1,3 @@
+export const VIDEO_ICON = '<path d="M 4 6 H 14 A 2 2 0 0 1 16 8 V 9 L 22 6 V 18 L 16 15 V 16 A 2 2 0 0 1 14 18 H 4 A 2 2 0 0 1 2 16 V 8 A 2 2 0 0 1 4 6 Z" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>';
+
+export const AUDIO_ICON = '<path d="M 8.5 17 A 2.5 2.5 0 0 1 3.5 17 A 2.5 2.5 0 0 1 8.5 17 V 5 L 18.5 3 V 15 A 2.5 2.5 0 0 1 13.5 15 A 2.5 2.5 0 0 1 18.5 15" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>';
@@ -1,250 +1,145 @@
-import { LunaUnload, Tracer } from "@luna/core";
-import { MediaItem, TidalApi, redux, observe, PlayState } from "@luna/lib";
+import { LunaUnload } from "@luna/core";
+import { MediaItem, observe, PlayState } from "@luna/lib";
+import { store as obyStore } from "oby";
+import { Priority } from "@renskursa/request-scheduler";
 import { 
-    pruneCache, 
-    pruneSet, 
     getCurrentSeekSeconds, 
-    getEffectiveType, 
     getMediaTypeById, 
-    normalizeTitle, 
-    scoreTitleMatch, 
-    extractSongName 
-} from "./utils";
+    getPlaybackControls, 
+    injectElement 
+} from "@renskursa/plugin-common";
+import { getEffectiveType } from "./utils";
+import { SongVideoMapping, getMappingOffset, setMappingOffset, flushCaches } from "./cache";
+import { resolveMapping, clearOngoingSearches } from "./mapping";
+import { switchToMediaItem, takeSeekPosition, waitUntilSeekable, getSeekTarget, PendingSeek } from "./playback";
+import { showOffsetNudge, removeOffsetNudge } from "./nudge";
+import { attachCandidatePicker, removeCandidatePicker } from "./picker";
+import { cancelConversion, getCollectionFromPath, playCollectionAs } from "./queue";
+import { applyPlaybackPolicy, prefetchNextMapping } from "./policy";
+import { removeProgress } from "./progress";
+import { showToast, removeToast } from "./toast";
+import { bindToggleShortcut, bindMediaSessionToggle } from "./controls";
+import { addContextMenuEntries } from "./contextMenu";
+import { refreshRowBadges, removeRowBadges, disconnectRowBadges, watchRow } from "./rowBadges";
+import { VIDEO_ICON, AUDIO_ICON } from "./icons";
+import { storage } from "./Settings";
 
 export { Settings } from "./Settings";
+export { errSignal } from "./tracer";
+export { clearCaches } from "./mapping";
 
 export const unloads = new Set<LunaUnload>();
-const { trace, errSignal } = Tracer("[MusicVideoButton]");
-export { errSignal };
 
-const songToVideoMappings = new Map<number, { trackId: number; videoId: number }>();
-const failedSearches = new Set<string>();
-const ongoingSearches = new Map<string, Promise<{ trackId: number; videoId: number } | undefined>>();
-const seekPositions = new Map<number, number>();
-
-async function findBestMatchingId(items: any[], type: "track" | "video", originalTitle?: string): Promise<number | undefined> {
-    if (!items?.length) return undefined;
-    
-    const normalizedOriginal = originalTitle ? normalizeTitle(originalTitle) : undefined;
-    if (normalizedOriginal) {
-        const candidates = items.map(item => {
-            const itemTitle = item.version ? `${item.title} (${item.version})` : (item.title ?? "");
-            return {
-                id: item.id,
-                score: scoreTitleMatch(normalizedOriginal, String(itemTitle))
-            };
-        }).sort((a, b) => b.score - a.score);
-        
-        for (const { id, score } of candidates) {
-            if (score > 0) {
-                try {
-                    await MediaItem.fromId(id, type);
-                    return id;
-                } catch { /* Item not accessible */ }
-            }
-        }
-        return undefined;
-    }
-    
-    for (const item of items) {
-        try {
-            await MediaItem.fromId(item.id, type);
-            return item.id;
-        } catch { /* Item not accessible */ }
-    }
-    return undefined;
-}
-
-export function clearCaches() {
-    songToVideoMappings.clear();
-    failedSearches.clear();
-    ongoingSearches.clear();
-}
+let currentLookup: AbortController | undefined;
 
 unloads.add(() => {
-    for (const el of document.querySelectorAll('button.mv-taskbar-button')) el.remove();
-    clearCaches();
+    clearOngoingSearches();
+    flushCaches();
+    currentLookup?.abort();
+    cancelConversion();
+    removeProgress();
+    removeOffsetNudge();
+    removeCandidatePicker();
+    removeToast();
+    disconnectRowBadges();
+    removeRowBadges();
 });
 
-async function findSongVideoPair(title: string, artist: string): Promise<{ trackId: number; videoId: number } | undefined> {
-    const searchKey = `${artist.toLowerCase()} - ${title.toLowerCase()}`;
-    if (failedSearches.has(searchKey)) return undefined;
-    
-    const existing = ongoingSearches.get(searchKey);
-    if (existing) return existing;
-    
-    const searchPromise = performSearch(title, artist, searchKey);
-    ongoingSearches.set(searchKey, searchPromise);
-    
-    return searchPromise.finally(() => ongoingSearches.delete(searchKey));
-}
-
-async function performSearch(title: string, artist: string, searchKey: string): Promise<{ trackId: number; videoId: number } | undefined> {
-    try {
-        const searchQuery = `${title} ${artist}`.trim();
-        const headers = await TidalApi.getAuthHeaders();
-        const baseUrl = 'https://desktop.tidal.com/v1/search';
-        const commonParams = `query=${encodeURIComponent(searchQuery)}&limit=10&${TidalApi.queryArgs()}`;
-        
-        const [trackRes, videoRes] = await Promise.all([
-            fetch(`${baseUrl}?${commonParams}&types=TRACKS`, { headers }),
-            fetch(`${baseUrl}?${commonParams}&types=VIDEOS`, { headers })
-        ]);
-        
-        if (!trackRes.ok || !videoRes.ok) {
-            failedSearches.add(searchKey);
-            return undefined;
-        }
-        
-        const [trackData, videoData] = await Promise.all([trackRes.json(), videoRes.json()]);
-        const [trackId, videoId] = await Promise.all([
-            findBestMatchingId(trackData?.tracks?.items ?? [], "track", title),
-            findBestMatchingId(videoData?.videos?.items ?? [], "video", title)
-        ]);
-        
-        if (trackId && videoId) {
-            const mapping = { trackId, videoId };
-            songToVideoMappings.set(trackId, mapping);
-            songToVideoMappings.set(videoId, mapping);
-            pruneCache(songToVideoMappings);
-            return mapping;
-        }
-        
-        failedSearches.add(searchKey);
-        pruneSet(failedSearches);
-        return undefined;
-    } catch {
-        failedSearches.add(searchKey);
-        pruneSet(failedSearches);
-        return undefined;
-    }
-}
-
-async function resolveMapping(media: MediaItem): Promise<{ trackId: number; videoId: number } | undefined> {
-    const cached = songToVideoMappings.get(Number(media.id));
-    if (cached) return cached;
-    
-    try {
-        let rawTitle = media.tidalItem?.title;
-        if (rawTitle && media.tidalItem?.version) {
-            rawTitle += ` (${media.tidalItem.version})`;
-        }
-        if (!rawTitle) {
-            rawTitle = await media.title();
-        }
-        
-        const artist = media.tidalItem?.artist?.name ?? (await media.artist())?.name ?? "";
-        
-        if (!rawTitle) return undefined;
-        
-        const cleanTitle = extractSongName(rawTitle);
-        
-        return findSongVideoPair(cleanTitle, artist);
-    } catch {
-        return undefined;
-    }
-}
-
-async function switchToMediaItem(targetId: number, type: "track" | "video", startAt?: number) {
-    try {
-        await MediaItem.fromId(targetId, type);
-        
-        if (startAt !== undefined) {
-            seekPositions.set(targetId, startAt);
-        }
-        
-        PlayState.playNext([targetId]); 
-        
-        const state = redux.store.getState() as any;
-        const pq = state?.playQueue;
-        const currentIndex = pq?.currentIndex ?? -1;
-        
-        if (currentIndex >= 0) {
-            await redux.actions["playQueue/MOVE_TO"](currentIndex + 1);
-            
-            const currentElem = pq?.elements?.[currentIndex];
-            if (currentElem?.uid) {
-                await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid: currentElem.uid });
-            }
-        }
-        
-        PlayState.play();
-        
-    } catch (err) {
-        trace.err.withContext("Failed to switch media item")(err as any);
-    }
-}
-
 MediaItem.onMediaTransition(unloads, async (media) => {
+    // A lookup for the previous item is stale once playback moves on
+    currentLookup?.abort();
+    currentLookup = new AbortController();
     if (media.contentType === "track" || media.contentType === "video") {
-        resolveMapping(media).catch(() => {});
+        resolveMapping(media, { priority: Priority.CURRENT, signal: currentLookup.signal }).catch(() => {});
     }
     
-    const pending = seekPositions.get(Number(media.id));
+    const pending = takeSeekPosition(Number(media.id));
     if (pending !== undefined) {
-        seekPositions.delete(Number(media.id));
-        
         if (media.contentType === "video") {
             await waitUntilSeekable(Number(media.id));
         }
         
-        PlayState.seek(pending);
+        PlayState.seek(getSeekTarget(pending, media.tidalItem?.duration));
     }
     
     createOrUpdateTaskbarButton().catch(() => {});
+    applyPlaybackPolicy(media).catch(() => {});
+    prefetchNextMapping().catch(() => {});
 });
 
-function waitUntilSeekable(targetMediaId: number, timeoutMs = 10000): Promise<void> {
-    return new Promise((resolve) => {
-        const start = Date.now();
-
-        const check = () => {
-            if (Date.now() - start >= timeoutMs) {
-                return resolve();
-            }
-
-            const state = redux.store.getState() as any;
-            const pc = state?.playbackControls;
-            
-            if (String(pc?.playbackContext?.actualProductId) === String(targetMediaId)) {
-                const mediaEl = document.querySelector('video, audio') as HTMLMediaElement | null;
-                
-                if (mediaEl && mediaEl.readyState >= 3) {
-                    resolve();
-                    return;
-                }
-            }
-            requestAnimationFrame(check);
-        };
-        setTimeout(() => requestAnimationFrame(check), 100);
-    });
-}
-
-async function onButtonClick() {
-    const { storage } = await import("./Settings");
+/** Switches between the playing item and its audio or video counterpart; shared by the button, shortcut and media keys. */
+async function toggleAudioVideo() {
     const { item: current, type } = await getCurrentMedia();
-    if (!current) return;
+    if (!current) {
+        showToast("Nothing is playing");
+        return;
+    }
     
     const effectiveType = getEffectiveType(current, type);
-    const mapping = await resolveMapping(current);
-    if (!mapping) return;
+    if (effectiveType !== 'track' && effectiveType !== 'video') {
+        showToast("Only tracks and music videos can be switched");
+        return;
+    }
     
-    const seekPosition = storage.seekOnSwitch ? getCurrentSeekSeconds() : undefined;
+    const mapping = await resolveMapping(current, { priority: Priority.CURRENT });
+    if (!mapping) {
+        showToast(effectiveType === 'track' ? "No music video found for this track" : "No audio version found for this video");
+        return;
+    }
     
-    if (effectiveType === 'track' && mapping.videoId) {
-        await switchToMediaItem(mapping.videoId, "video", seekPosition);
-    } else if (effectiveType === 'video' && mapping.trackId) {
-        await switchToMediaItem(mapping.trackId, "track", seekPosition);
+    const toVideo = effectiveType === 'track';
+    let seek: PendingSeek | undefined;
+    if (storage.seekOnSwitch) {
+        const offset = await getOrEstimateOffset(mapping, toVideo);
+        seek = { seconds: getCurrentSeekSeconds(), offset: toVideo ? offset : -offset };
     }
+    
+    await switchToMediaItem(toVideo ? mapping.videoId : mapping.trackId, toVideo ? "video" : "track", seek);
+    if (seek) showOffsetNudge(mapping, toVideo ? "video" : "track");
 }
 
-observe(unloads, 'div[class*="utilityButtons"]', () => {
-    createOrUpdateTaskbarButton().catch(() => {});
+async function getOrEstimateOffset(mapping: SongVideoMapping, fromTrack: boolean): Promise<number> {
+    const stored = getMappingOffset(mapping);
+    if (stored !== undefined) return stored;
+    
+    // Assume the extra length of the video is split evenly between intro and outro
+    const currentDuration = Number(getPlaybackControls()?.playbackContext?.actualDuration);
+    const target = await MediaItem.fromId(fromTrack ? mapping.videoId : mapping.trackId, fromTrack ? "video" : "track").catch(() => undefined);
+    const targetDuration = Number(target?.tidalItem?.duration);
+    if (!currentDuration || !targetDuration) return 0;
+    
+    const videoDuration = fromTrack ? targetDuration : currentDuration;
+    const trackDuration = fromTrack ? currentDuration : targetDuration;
+    const offset = Math.round((videoDuration - trackDuration) / 2);
+    setMappingOffset(mapping, offset);
+    return offset;
+}
+
+bindToggleShortcut(unloads, toggleAudioVideo);
+bindMediaSessionToggle(unloads, toggleAudioVideo);
+addContextMenuEntries(unloads);
+
+observe(unloads, 'div[data-test="tracklist-row"]', watchRow);
+unloads.add(obyStore.on(storage, refreshRowBadges));
+
+injectElement(unloads, {
+    anchor: 'button[data-test="play-all"]',
+    className: 'mv-collection-button',
+    // Only playlists and albums can be fetched and rebuilt, so leave mixes, artists and favourites alone
+    getPlacement: (playButton) => ({ el: getCollectionFromPath() ? playButton : undefined, pos: 'afterend' }),
+    create: (playButton) => {
+        const button = document.createElement('button');
+        button.className = playButton.parentElement?.querySelector('button[data-test="shuffle-all"]')?.className ?? playButton.className;
+        button.textContent = 'Video mode';
+        button.title = 'Play this collection with music videos where available';
+        button.onclick = () => playCollectionAs("video");
+        return button;
+    },
 });
 
 async function getCurrentMedia(): Promise<{ item?: MediaItem; type?: "track" | "video" }> {
     try {
-        const controls = redux.store.getState().playbackControls;
+        const controls = getPlaybackControls();
         const ctx = controls?.playbackContext;
         
         if (ctx?.actualProductId !== undefined) {
@@ -265,81 +160,75 @@ async function getCurrentMedia(): Promise<{ item?: MediaItem; type?: "track" | "
     return {};
 }
 
+// Icon for the playing item's counterpart, or undefined while it has none
+let taskbarIcon: string | undefined;
+
+const taskbarButton = injectElement(unloads, {
+    anchor: 'div[class*="utilityButtons"]',
+    className: 'mv-taskbar-button',
+    getPlacement: (container) => {
+        if (!taskbarIcon) return { el: undefined, pos: 'beforeend' };
+        const slider = container.querySelector('[class*="sliderContainer"]');
+        return slider ? { el: slider, pos: 'beforebegin' } : { el: container, pos: 'beforeend' };
+    },
+    create: (container) => {
+        const button = document.createElement('button');
+        button.onclick = toggleAudioVideo;
+        attachCandidatePicker(button, async () => (await getCurrentMedia()).item);
+
+        const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+        const nativeClass = container.querySelector('svg')?.getAttribute('class');
+        
+        if (nativeClass) svg.setAttribute('class', nativeClass);
+        
+        svg.setAttribute('viewBox', '0 0 24 24');
+        svg.style.width = '24px';
+        svg.style.height = '24px';
+        svg.innerHTML = taskbarIcon ?? '';
+        
+        button.appendChild(svg);
+        return button;
+    },
+});
+createOrUpdateTaskbarButton().catch(() => {});
+
 async function createOrUpdateTaskbarButton() {
     const { item: current, type } = await getCurrentMedia();
     const effectiveType = getEffectiveType(current, type);
     
-    if (!current || !effectiveType) {
-        removeTaskbarButton();
-        return;
-    }
-    
-    const mapping = await resolveMapping(current);
-    const { hasValidMapping, svgContent } = getButtonConfig(effectiveType, mapping);
+    const mapping = current && effectiveType
+        ? await resolveMapping(current, { priority: Priority.CURRENT, signal: currentLookup?.signal })
+        : undefined;
+    const { hasValidMapping, svgContent } = getButtonConfig(effectiveType ?? '', mapping);
     
-    if (!hasValidMapping) {
-        removeTaskbarButton();
+    taskbarIcon = hasValidMapping ? svgContent : undefined;
+    if (!taskbarIcon) {
+        taskbarButton.unmount();
         return;
     }
     
-    const container = document.querySelector('div[class*="utilityButtons"]');
-    if (!container) {
-        removeTaskbarButton();
+    const buttons = taskbarButton.elements();
+    if (buttons.length === 0) {
+        taskbarButton.remount();
         return;
     }
-    
-    const button = getOrCreateButton(container);
-    const svg = button.querySelector('svg');
-    if (svg) {
-        svg.innerHTML = svgContent;
+    for (const svg of buttons.map(button => button.querySelector('svg'))) {
+        if (svg) svg.innerHTML = taskbarIcon;
     }
 }
 
-function getButtonConfig(effectiveType: string, mapping?: { trackId: number; videoId: number }) {
+function getButtonConfig(effectiveType: string, mapping?: SongVideoMapping) {
     if (effectiveType === 'track') {
         return {
             hasValidMapping: !!mapping?.videoId,
-            svgContent: '<path d="M 4 6 H 14 A 2 2 0 0 1 16 8 V 9 L 22 6 V 18 L 16 15 V 16 A 2 2 0 0 1 14 18 H 4 A 2 2 0 0 1 2 16 V 8 A 2 2 0 0 1 4 6 Z" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>'
+            svgContent: VIDEO_ICON
         };
     }
     if (effectiveType === 'video') {
         return {
             hasValidMapping: !!mapping?.trackId,
-            svgContent: '<path d="M 8.5 17 A 2.5 2.5 0 0 1 3.5 17 A 2.5 2.5 0 0 1 8.5 17 V 5 L 18.5 3 V 15 A 2.5 2.5 0 0 1 13.5 15 A 2.5 2.5 0 0 1 18.5 15" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>'
+            svgContent: AUDIO_ICON
         };
     }
     return { hasValidMapping: false, svgContent: '' };
 }
-
-function getOrCreateButton(container: Element): HTMLButtonElement {
-    let button = container.querySelector('button.mv-taskbar-button') as HTMLButtonElement;
-    if (button) return button;
-
-    button = document.createElement('button');
-    button.className = 'mv-taskbar-button';
-    button.onclick = onButtonClick;
-
-    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-    const nativeClass = container.querySelector('svg')?.getAttribute('class');
-    
-    if (nativeClass) svg.setAttribute('class', nativeClass);
-    
-    svg.setAttribute('viewBox', '0 0 24 24');
-    svg.style.width = '24px';
-    svg.style.height = '24px';
-    
-    button.appendChild(svg);
-
-    const slider = container.querySelector('[class*="sliderContainer"]');
-    if (slider) {
-        slider.insertAdjacentElement('beforebegin', button);
-    } else {
-        container.append(button);
-    }
-
-    return button;
-}
-
-function removeTaskbarButton() {
-    document.querySelector('button.mv-taskbar-button')?.remove();
-}
\ No newline at end of file
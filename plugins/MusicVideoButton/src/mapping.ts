@@ -0,0 +1,285 @@
+import { MediaItem, TidalApi } from "@luna/lib";
+import { getScheduler, HttpError, isAbortError, isTransientError, Priority, ScheduleOptions } from "@renskursa/request-scheduler";
+import { 
+    extractSongName, 
+    buildMatchReference, 
+    scoreCandidate, 
+    MatchReference, 
+    CandidateScore 
+} from "./utils";
+import { 
+    SongVideoMapping, 
+    getCachedMapping, 
+    setCachedMapping, 
+    isFailedSearch, 
+    markFailedSearch, 
+    clearMappings, 
+    clearFailedSearches 
+} from "./cache";
+import { resolvePin } from "./pins";
+import { CandidateDecision, describeCandidates, recordKnownLookup, recordLookup, recordSkippedLookup } from "./diagnostics";
+import { storage } from "./Settings";
+
+/** A search shared by every lookup for the same song, cancelled only once all of them are. */
+type SharedSearch = {
+    promise: Promise<SongVideoMapping | undefined>;
+    // Passed by reference, so later fetches and retries see a raised priority
+    options: { priority: Priority; signal: AbortSignal };
+    controller: AbortController;
+    callers: number;
+};
+
+const ongoingSearches = new Map<string, SharedSearch>();
+
+export type RankedCandidate = {
+    id: number;
+    type: "track" | "video";
+    title: string;
+    score: number;
+    match: CandidateScore;
+    duration?: number;
+};
+
+export type SearchCandidates = { tracks: RankedCandidate[]; videos: RankedCandidate[] };
+
+const MAX_CANDIDATE_LISTS = 100;
+const candidateLists = new Map<number, SearchCandidates>();
+
+function rememberCandidates(ids: number[], candidates: SearchCandidates) {
+    for (const id of ids) {
+        candidateLists.delete(id);
+        candidateLists.set(id, candidates);
+    }
+    for (const id of candidateLists.keys()) {
+        if (candidateLists.size <= MAX_CANDIDATE_LISTS) break;
+        candidateLists.delete(id);
+    }
+}
+
+/** Scores every search result, keeping the ones a title rule knocked out so diagnostics can explain them. */
+function rankCandidates(items: any[], type: "track" | "video", reference: MatchReference): RankedCandidate[] {
+    return items.map(item => {
+        const match = scoreCandidate(reference, item);
+        return {
+            id: Number(item.id),
+            type,
+            title: item.version ? `${item.title} (${item.version})` : String(item.title ?? ""),
+            score: match.score,
+            match,
+            duration: typeof item.duration === "number" ? item.duration : undefined,
+        };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+const onlyMatches = ({ tracks, videos }: SearchCandidates): SearchCandidates => ({
+    tracks: tracks.filter(candidate => candidate.score > 0),
+    videos: videos.filter(candidate => candidate.score > 0),
+});
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const isBackground = (options: ScheduleOptions) => options.priority === Priority.PREFETCH;
+
+async function findBestMatchingId(candidates: RankedCandidate[], decisions: Map<RankedCandidate, CandidateDecision>): Promise<number | undefined> {
+    for (const candidate of candidates) {
+        if (candidate.score <= 0 || candidate.score < storage.minMatchScore) break;
+        try {
+            await MediaItem.fromId(candidate.id, candidate.type);
+            decisions.set(candidate, { outcome: "chosen" });
+            return candidate.id;
+        } catch (err) {
+            // Item not accessible
+            decisions.set(candidate, { outcome: "inaccessible", error: errorMessage(err) });
+        }
+    }
+    return undefined;
+}
+
+export function clearCaches() {
+    clearMappings();
+    clearFailedSearches();
+    ongoingSearches.clear();
+}
+
+export function clearOngoingSearches() {
+    ongoingSearches.forEach(search => search.controller.abort());
+    ongoingSearches.clear();
+    candidateLists.clear();
+}
+
+/** Waits for `search` on behalf of one caller, who stops waiting with `undefined` when their own signal aborts. */
+function joinSearch(search: SharedSearch, { priority = Priority.NORMAL, signal }: ScheduleOptions): Promise<SongVideoMapping | undefined> {
+    if (priority < search.options.priority) {
+        search.options.priority = priority;
+        getScheduler().raisePriority(search.options.signal, priority);
+    }
+    if (!signal) {
+        search.callers++;
+        return search.promise;
+    }
+    if (signal.aborted) return Promise.resolve(undefined);
+
+    search.callers++;
+    return new Promise(resolve => {
+        const onAbort = () => {
+            if (--search.callers === 0) search.controller.abort();
+            resolve(undefined);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        search.promise.then(resolve, () => resolve(undefined)).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+async function findSongVideoPair(title: string, artist: string, reference: MatchReference, options: ScheduleOptions): Promise<SongVideoMapping | undefined> {
+    const searchKey = `${artist.toLowerCase()} - ${title.toLowerCase()}`;
+    if (isFailedSearch(searchKey)) {
+        recordSkippedLookup(getSearchQuery(title, artist), isBackground(options));
+        return undefined;
+    }
+    
+    let search = ongoingSearches.get(searchKey);
+    // A search every caller gave up on may still be winding down, so start over
+    if (!search || search.controller.signal.aborted) {
+        if (options.signal?.aborted) return undefined;
+        const controller = new AbortController();
+        const shared = { priority: options.priority ?? Priority.NORMAL, signal: controller.signal };
+        const created: SharedSearch = {
+            promise: performSearch(title, artist, searchKey, reference, shared),
+            options: shared,
+            controller,
+            callers: 0,
+        };
+        created.promise.finally(() => {
+            if (ongoingSearches.get(searchKey) === created) ongoingSearches.delete(searchKey);
+        });
+        ongoingSearches.set(searchKey, search = created);
+    }
+    
+    return joinSearch(search, options);
+}
+
+const getSearchQuery = (title: string, artist: string) => `${title} ${artist}`.trim();
+
+async function searchCandidates(title: string, artist: string, reference: MatchReference, options: ScheduleOptions): Promise<SearchCandidates> {
+    const searchQuery = getSearchQuery(title, artist);
+    const headers = await TidalApi.getAuthHeaders();
+    const baseUrl = 'https://desktop.tidal.com/v1/search';
+    const commonParams = `query=${encodeURIComponent(searchQuery)}&limit=10&${TidalApi.queryArgs()}`;
+    
+    const [trackRes, videoRes] = await Promise.all([
+        getScheduler().fetch(`${baseUrl}?${commonParams}&types=TRACKS`, { headers }, options),
+        getScheduler().fetch(`${baseUrl}?${commonParams}&types=VIDEOS`, { headers }, options)
+    ]);
+    
+    if (!trackRes.ok) throw new HttpError(trackRes.status);
+    if (!videoRes.ok) throw new HttpError(videoRes.status);
+    
+    const [trackData, videoData] = await Promise.all([trackRes.json(), videoRes.json()]);
+    return {
+        tracks: rankCandidates(trackData?.tracks?.items ?? [], "track", reference),
+        videos: rankCandidates(videoData?.videos?.items ?? [], "video", reference),
+    };
+}
+
+async function performSearch(title: string, artist: string, searchKey: string, reference: MatchReference, options: ScheduleOptions): Promise<SongVideoMapping | undefined> {
+    const query = getSearchQuery(title, artist);
+    // Read when recording, since a lookup for the playing item may have joined a background search
+    const lookup = () => ({ query, source: "search" as const, background: isBackground(options) });
+    try {
+        const candidates = await searchCandidates(title, artist, reference, options);
+        
+        const decisions = new Map<RankedCandidate, CandidateDecision>();
+        const [trackId, videoId] = await Promise.all([
+            findBestMatchingId(candidates.tracks, decisions),
+            findBestMatchingId(candidates.videos, decisions)
+        ]);
+        const described = describeCandidates([...candidates.tracks, ...candidates.videos], decisions, storage.minMatchScore);
+        
+        if (trackId && videoId) {
+            const mapping = { trackId, videoId };
+            setCachedMapping(mapping);
+            rememberCandidates([trackId, videoId], onlyMatches(candidates));
+            recordLookup({ ...lookup(), at: Date.now(), outcome: "matched", mapping, candidates: described });
+            return mapping;
+        }
+        
+        markFailedSearch(searchKey);
+        recordLookup({ ...lookup(), at: Date.now(), outcome: "no-match", candidates: described });
+        return undefined;
+    } catch (err) {
+        // Rate limits, outages and cancelled lookups say nothing about the song, so try again next time
+        const transient = isTransientError(err);
+        if (!transient) markFailedSearch(searchKey);
+        // Cancelled lookups were abandoned on purpose, so there is nothing to explain
+        if (isAbortError(err)) return undefined;
+        recordLookup({
+            ...lookup(),
+            at: Date.now(),
+            outcome: "search-failed",
+            error: transient ? `${errorMessage(err)}, retried next time` : errorMessage(err),
+            candidates: [],
+        });
+        return undefined;
+    }
+}
+
+async function getSearchParams(media: MediaItem): Promise<{ title: string; artist: string; reference: MatchReference } | undefined> {
+    let rawTitle = media.tidalItem?.title;
+    if (rawTitle && media.tidalItem?.version) {
+        rawTitle += ` (${media.tidalItem.version})`;
+    }
+    if (!rawTitle) {
+        rawTitle = await media.title();
+    }
+    
+    const artist = media.tidalItem?.artist?.name ?? (await media.artist())?.name ?? "";
+    
+    if (!rawTitle) return undefined;
+    
+    const title = extractSongName(rawTitle);
+    return { title, artist, reference: buildMatchReference(title, media.tidalItem, artist) };
+}
+
+// Pinned and cached lookups don't search, so they are labelled with the item's own title
+const describeMedia = (media: MediaItem) =>
+    getSearchQuery(String(media.tidalItem?.title ?? media.id), String(media.tidalItem?.artist?.name ?? media.tidalItem?.artists?.[0]?.name ?? ""));
+
+export async function resolveMapping(media: MediaItem, options: ScheduleOptions = {}): Promise<SongVideoMapping | undefined> {
+    const pin = resolvePin(Number(media.id));
+    if (pin.pinned) {
+        recordKnownLookup(describeMedia(media), "pin", pin.mapping, isBackground(options));
+        return pin.mapping;
+    }
+    
+    const cached = getCachedMapping(Number(media.id));
+    if (cached) {
+        recordKnownLookup(describeMedia(media), "cache", cached, isBackground(options));
+        return cached;
+    }
+    
+    try {
+        const params = await getSearchParams(media);
+        if (!params) return undefined;
+        
+        return await findSongVideoPair(params.title, params.artist, params.reference, options);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the ranked candidates from the search behind `media`, searching again if they were not kept.
+ * Rejects when that search fails, so the picker can tell a failed search from one without results.
+ */
+export async function getCandidates(media: MediaItem, options: ScheduleOptions = {}): Promise<SearchCandidates | undefined> {
+    const kept = candidateLists.get(Number(media.id));
+    if (kept) return kept;
+    
+    const params = await getSearchParams(media);
+    if (!params) return undefined;
+    
+    const candidates = onlyMatches(await searchCandidates(params.title, params.artist, params.reference, options));
+    rememberCandidates([Number(media.id)], candidates);
+    return candidates;
+}
@@ -0,0 +1,60 @@
+import { PlayState } from "@luna/lib";
+import { SongVideoMapping, getMappingOffset, setMappingOffset } from "./cache";
+import { getCurrentSeekSeconds, mountOverlay, unmountOverlay } from "@renskursa/plugin-common";
+
+const NUDGE_STEP_SECONDS = 1;
+const NUDGE_VISIBLE_MS = 8000;
+
+let hideTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function removeOffsetNudge() {
+    clearTimeout(hideTimer);
+    unmountOverlay(document.querySelector('div.mv-offset-nudge'));
+}
+
+/** Lets the user shift the just-switched-to item, remembering the correction for the mapping. */
+export function showOffsetNudge(mapping: SongVideoMapping, playing: "track" | "video") {
+    removeOffsetNudge();
+
+    const container = document.createElement('div');
+    container.className = 'mv-offset-nudge';
+    container.style.cssText = "display: flex; align-items: center; gap: 8px; padding: 8px 12px; border-radius: 8px; background: var(--wave-color-solid-base-brighter, #1f1f1f); color: var(--wave-color-text-primary, #fff); font-size: 0.85rem; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);";
+
+    const label = document.createElement('span');
+    const render = () => {
+        const offset = getMappingOffset(mapping) ?? 0;
+        label.textContent = `Video offset ${offset >= 0 ? "+" : ""}${offset}s`;
+    };
+
+    const scheduleHide = () => {
+        clearTimeout(hideTimer);
+        hideTimer = setTimeout(removeOffsetNudge, NUDGE_VISIBLE_MS);
+    };
+
+    const nudge = (delta: number) => {
+        // Moving later in the video means the video starts later than the track, and vice versa
+        const offset = getMappingOffset(mapping) ?? 0;
+        setMappingOffset(mapping, offset + (playing === "video" ? delta : -delta));
+        PlayState.seek(Math.max(0, getCurrentSeekSeconds() + delta));
+        render();
+        scheduleHide();
+    };
+
+    const makeButton = (text: string, title: string, delta: number) => {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.title = title;
+        button.style.cssText = "background: none; border: 1px solid currentColor; border-radius: 4px; color: inherit; padding: 2px 8px; cursor: pointer;";
+        button.onclick = () => nudge(delta);
+        return button;
+    };
+
+    container.append(
+        makeButton("−", `Jump back ${NUDGE_STEP_SECONDS}s`, -NUDGE_STEP_SECONDS),
+        label,
+        makeButton("+", `Jump ahead ${NUDGE_STEP_SECONDS}s`, NUDGE_STEP_SECONDS),
+    );
+    render();
+    mountOverlay(container);
+    scheduleHide();
+}
@@ -0,0 +1,162 @@
+import { MediaItem } from "@luna/lib";
+import { getScheduler, Priority } from "@renskursa/request-scheduler";
+import { SongVideoMapping } from "./cache";
+import { getCandidates, resolveMapping, RankedCandidate, SearchCandidates } from "./mapping";
+import { switchToMediaItem } from "./playback";
+import { setPin } from "./pins";
+
+const LONG_PRESS_MS = 500;
+
+function formatDuration(seconds?: number): string {
+    if (seconds === undefined) return "";
+    const s = Math.round(seconds);
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+// The checks queue behind the shared scheduler, so a long candidate list can't flood the API or skip a rate limit
+async function filterAccessible(candidates: RankedCandidate[], excludeIds: number[]): Promise<RankedCandidate[]> {
+    const checked = await Promise.all(candidates.map(async candidate => {
+        if (excludeIds.includes(candidate.id)) return undefined;
+        try {
+            const media = await getScheduler().schedule(() => MediaItem.fromId(candidate.id, candidate.type), { priority: Priority.NORMAL });
+            return media ? candidate : undefined;
+        } catch {
+            return undefined;
+        }
+    }));
+    return checked.filter((c): c is RankedCandidate => c !== undefined);
+}
+
+function getPinnedMapping(candidate: RankedCandidate, current: MediaItem, mapping?: SongVideoMapping): SongVideoMapping | undefined {
+    const currentId = Number(current.id);
+    const trackId = candidate.type === "track" ? candidate.id : (mapping?.trackId ?? (current.contentType === "track" ? currentId : undefined));
+    const videoId = candidate.type === "video" ? candidate.id : (mapping?.videoId ?? (current.contentType === "video" ? currentId : undefined));
+    return trackId !== undefined && videoId !== undefined ? { trackId, videoId } : undefined;
+}
+
+export function removeCandidatePicker() {
+    document.querySelector('div.mv-candidate-picker')?.remove();
+    document.removeEventListener('mousedown', onOutsideClick, true);
+    document.removeEventListener('keydown', onEscape, true);
+}
+
+function onOutsideClick(event: MouseEvent) {
+    if (!(event.target as Element | null)?.closest?.('div.mv-candidate-picker')) removeCandidatePicker();
+}
+
+function onEscape(event: KeyboardEvent) {
+    if (event.key === "Escape") removeCandidatePicker();
+}
+
+function createRow(candidate: RankedCandidate, onPlay: () => void, onPin?: () => void): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = "display: flex; align-items: center; gap: 8px; padding: 6px 0; border-top: 1px solid rgba(255, 255, 255, 0.08);";
+
+    const info = document.createElement('div');
+    info.style.cssText = "flex: 1; min-width: 0;";
+    const title = document.createElement('div');
+    title.textContent = candidate.title;
+    title.style.cssText = "white-space: nowrap; overflow: hidden; text-overflow: ellipsis;";
+    const meta = document.createElement('div');
+    meta.textContent = [candidate.type, formatDuration(candidate.duration), `score ${candidate.score}`].filter(Boolean).join(" · ");
+    meta.style.cssText = "font-size: 0.75rem; opacity: 0.7;";
+    info.append(title, meta);
+
+    const makeButton = (text: string, onClick: () => void) => {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.style.cssText = "background: none; border: 1px solid currentColor; border-radius: 4px; color: inherit; padding: 2px 8px; cursor: pointer; white-space: nowrap;";
+        button.onclick = () => {
+            removeCandidatePicker();
+            onClick();
+        };
+        return button;
+    };
+
+    row.append(info, makeButton("Play", onPlay));
+    if (onPin) row.append(makeButton("Set default", onPin));
+    return row;
+}
+
+export async function showCandidatePicker(anchor: Element, current: MediaItem) {
+    removeCandidatePicker();
+
+    const popover = document.createElement('div');
+    popover.className = 'mv-candidate-picker';
+    popover.style.cssText = "position: fixed; z-index: 10000; width: 360px; max-height: 50vh; overflow-y: auto; padding: 10px 14px; border-radius: 8px; background: var(--wave-color-solid-base-brighter, #1f1f1f); color: var(--wave-color-text-primary, #fff); font-size: 0.85rem; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);";
+    const rect = anchor.getBoundingClientRect();
+    popover.style.right = `${Math.max(8, window.innerWidth - rect.right)}px`;
+    popover.style.bottom = `${window.innerHeight - rect.top + 8}px`;
+    popover.textContent = "Searching…";
+    document.body.append(popover);
+    document.addEventListener('mousedown', onOutsideClick, true);
+    document.addEventListener('keydown', onEscape, true);
+
+    let candidates: SearchCandidates | undefined;
+    let mapping: SongVideoMapping | undefined;
+    try {
+        [candidates, mapping] = await Promise.all([
+            getCandidates(current, { priority: Priority.CURRENT }),
+            resolveMapping(current, { priority: Priority.CURRENT })
+        ]);
+    } catch (err) {
+        if (popover.isConnected) popover.textContent = `Search failed: ${(err as Error)?.message ?? err}`;
+        return;
+    }
+    if (!popover.isConnected) return;
+
+    const currentId = Number(current.id);
+    const accessible = candidates
+        ? await filterAccessible([...candidates.videos, ...candidates.tracks], [currentId])
+        : [];
+    if (!popover.isConnected) return;
+
+    popover.textContent = "";
+    if (accessible.length === 0) {
+        popover.textContent = "No other versions found";
+        return;
+    }
+
+    for (const candidate of accessible) {
+        const pinned = getPinnedMapping(candidate, current, mapping);
+        popover.append(createRow(
+            candidate,
+            () => switchToMediaItem(candidate.id, candidate.type),
+            pinned && (() => setPin({ trackId: pinned.trackId, videoId: pinned.videoId }))
+        ));
+    }
+}
+
+/** Opens the picker on right-click or long-press of `button`. */
+export function attachCandidatePicker(button: HTMLElement, getCurrent: () => Promise<MediaItem | undefined>) {
+    let pressTimer: ReturnType<typeof setTimeout> | undefined;
+    let longPressed = false;
+
+    const open = async () => {
+        const current = await getCurrent();
+        if (current) await showCandidatePicker(button, current);
+    };
+
+    button.addEventListener('contextmenu', (event) => {
+        event.preventDefault();
+        open().catch(() => {});
+    });
+    button.addEventListener('pointerdown', (event) => {
+        if (event.button !== 0) return;
+        longPressed = false;
+        pressTimer = setTimeout(() => {
+            longPressed = true;
+            open().catch(() => {});
+        }, LONG_PRESS_MS);
+    });
+    for (const type of ['pointerup', 'pointerleave', 'pointercancel']) {
+        button.addEventListener(type, () => clearTimeout(pressTimer));
+    }
+    // Swallow the click that ends a long-press so it doesn't also switch
+    button.addEventListener('click', (event) => {
+        if (!longPressed) return;
+        longPressed = false;
+        event.stopImmediatePropagation();
+        event.preventDefault();
+    }, true);
+}
@@ -0,0 +1,59 @@
+import { ReactiveStore } from "@luna/core";
+import type { SongVideoMapping } from "./cache";
+
+/** A hand-picked mapping. A `videoId` of `null` means the track should never be offered a video. */
+export type PinnedMapping = { trackId: number; videoId: number | null };
+
+export const pinStorage = await ReactiveStore.getPluginStorage("MusicVideoButton.pins", {
+    pins: [] as PinnedMapping[],
+});
+
+export function getPin(id: number): PinnedMapping | undefined {
+    return pinStorage.pins.find(pin => pin.trackId === id || pin.videoId === id);
+}
+
+export function resolvePin(id: number): { pinned: boolean; mapping?: SongVideoMapping } {
+    const pin = getPin(id);
+    if (!pin) return { pinned: false };
+    if (pin.videoId === null) return { pinned: true };
+    return { pinned: true, mapping: { trackId: pin.trackId, videoId: pin.videoId } };
+}
+
+export function setPin(pin: PinnedMapping) {
+    pinStorage.pins = [
+        ...pinStorage.pins.filter(p => p.trackId !== pin.trackId && (pin.videoId === null || p.videoId !== pin.videoId)),
+        pin,
+    ];
+}
+
+export function removePin(trackId: number) {
+    pinStorage.pins = pinStorage.pins.filter(pin => pin.trackId !== trackId);
+}
+
+export function exportPins(): string {
+    return JSON.stringify(pinStorage.pins, null, 2);
+}
+
+/** Merges pins from an exported JSON list, returning how many were imported. */
+export function importPins(json: string): number {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of pinned mappings");
+
+    let imported = 0;
+    for (const entry of parsed) {
+        const trackId = parseMediaId(entry?.trackId);
+        const videoId = entry?.videoId === null ? null : parseMediaId(entry?.videoId);
+        if (trackId === undefined || videoId === undefined) continue;
+        setPin({ trackId, videoId });
+        imported++;
+    }
+    return imported;
+}
+
+/** Accepts a plain id or a TIDAL link such as `https://tidal.com/browse/video/123`. */
+export function parseMediaId(value: unknown): number | undefined {
+    const match = String(value ?? "").trim().match(/(\d+)\/?$/);
+    if (!match) return undefined;
+    const id = Number(match[1]);
+    return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
@@ -0,0 +1,152 @@
+import { MediaItem, redux, PlayState } from "@luna/lib";
+import { getPlaybackControls, getPlayQueue, PlayQueueElement } from "@renskursa/plugin-common";
+import { trace } from "./tracer";
+
+/** The playlist, album or other source a queue was started from. */
+export type QueueContext = NonNullable<PlayQueueElement["context"]>;
+
+type AddNowPayload = { context: QueueContext; mediaItemIds: number[]; fromIndex: number };
+
+/** A position to resume at, plus the offset to add to it on the target item. */
+export type PendingSeek = { seconds: number; offset?: number };
+
+const seekPositions = new Map<number, PendingSeek>();
+const recentSwitches = new Set<number>();
+
+/** Returns and forgets the position queued for `mediaId` by a switch. */
+export function takeSeekPosition(mediaId: number): PendingSeek | undefined {
+    const pending = seekPositions.get(mediaId);
+    seekPositions.delete(mediaId);
+    return pending;
+}
+
+export function setSeekPosition(mediaId: number, seek: PendingSeek) {
+    seekPositions.set(mediaId, seek);
+}
+
+export function getSeekTarget(seek: PendingSeek, duration = Infinity): number {
+    return Math.max(0, Math.min(duration, seek.seconds + (seek.offset ?? 0)));
+}
+
+/** Returns whether `mediaId` was just switched to, forgetting it either way. */
+export function consumeSwitch(mediaId: number): boolean {
+    return recentSwitches.delete(mediaId);
+}
+
+export async function switchToMediaItem(targetId: number, type: "track" | "video", startAt?: PendingSeek) {
+    try {
+        await MediaItem.fromId(targetId, type);
+        
+        if (startAt !== undefined) {
+            setSeekPosition(targetId, startAt);
+        }
+        
+        recentSwitches.add(targetId);
+        PlayState.playNext([targetId]); 
+        
+        const { elements, currentIndex } = getPlayQueue();
+        
+        if (currentIndex >= 0) {
+            await redux.actions["playQueue/MOVE_TO"](currentIndex + 1);
+            
+            const currentElem = elements[currentIndex];
+            if (currentElem?.uid) {
+                await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid: currentElem.uid });
+            }
+        }
+        
+        PlayState.play();
+        
+    } catch (err) {
+        trace.err.withContext("Failed to switch media item")(err as any);
+    }
+}
+
+/** Replaces the queue element `uid` with `targetId`, as long as it is still the next item. */
+export async function replaceUpcoming(uid: string, targetId: number, type: "track" | "video") {
+    try {
+        await MediaItem.fromId(targetId, type);
+        
+        const { elements, currentIndex } = getPlayQueue();
+        if (elements[currentIndex + 1]?.uid !== uid) return;
+        
+        // The policy skips the item when it starts, since it is already what the policy wants
+        recentSwitches.add(targetId);
+        PlayState.playNext([targetId]);
+        await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid });
+    } catch (err) {
+        trace.err.withContext("Failed to replace upcoming item")(err as any);
+    }
+}
+
+/** Puts `mediaItemIds` right after the playing item in place of the queue elements `uids`. */
+export async function replaceUpcomingItems(uids: string[], mediaItemIds: number[]) {
+    try {
+        PlayState.playNext(mediaItemIds);
+        for (const uid of uids) {
+            await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid });
+        }
+    } catch (err) {
+        trace.err.withContext("Failed to replace upcoming items")(err as any);
+    }
+}
+
+/** Plays `targetId` right away, keeping the current item in the queue. */
+export async function playNow(targetId: number, type: "track" | "video") {
+    try {
+        await MediaItem.fromId(targetId, type);
+        
+        recentSwitches.add(targetId);
+        PlayState.playNext([targetId]);
+        
+        const { currentIndex } = getPlayQueue();
+        await redux.actions["playQueue/MOVE_TO"](currentIndex + 1);
+        PlayState.play();
+    } catch (err) {
+        trace.err.withContext("Failed to play media item")(err as any);
+    }
+}
+
+export async function queueNext(targetId: number, type: "track" | "video") {
+    try {
+        await MediaItem.fromId(targetId, type);
+        PlayState.playNext([targetId]);
+    } catch (err) {
+        trace.err.withContext("Failed to queue media item")(err as any);
+    }
+}
+
+export function waitUntilSeekable(targetMediaId: number, timeoutMs = 10000): Promise<void> {
+    return new Promise((resolve) => {
+        const start = Date.now();
+
+        const check = () => {
+            if (Date.now() - start >= timeoutMs) {
+                return resolve();
+            }
+
+            const pc = getPlaybackControls();
+            
+            if (String(pc?.playbackContext?.actualProductId) === String(targetMediaId)) {
+                const mediaEl = document.querySelector('video, audio') as HTMLMediaElement | null;
+                
+                if (mediaEl && mediaEl.readyState >= 3) {
+                    resolve();
+                    return;
+                }
+            }
+            requestAnimationFrame(check);
+        };
+        setTimeout(() => requestAnimationFrame(check), 100);
+    });
+}
+
+export async function replaceQueue(mediaItemIds: number[], fromIndex: number, context: QueueContext = { type: "UNKNOWN" }) {
+    try {
+        const payload: AddNowPayload = { context, mediaItemIds, fromIndex };
+        await redux.actions["playQueue/ADD_NOW"](payload);
+        PlayState.play();
+    } catch (err) {
+        trace.err.withContext("Failed to replace play queue")(err as any);
+    }
+}
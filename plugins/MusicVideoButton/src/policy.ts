@@ -0,0 +1,92 @@
+import { MediaItem } from "@luna/lib";
+import { Priority } from "@renskursa/request-scheduler";
+import { getMediaTypeById, getPlaybackControls, getPlayerState, getPlayQueue } from "@renskursa/plugin-common";
+import { getEffectiveType, normalizeTitle } from "./utils";
+import { resolveMapping } from "./mapping";
+import { switchToMediaItem, consumeSwitch, replaceUpcoming } from "./playback";
+import { storage } from "./Settings";
+
+export type PlaybackPolicy = "manual" | "video" | "audio";
+
+function parseList(value: string): string[] {
+    return value.split(",")
+        .map(entry => normalizeTitle(entry.trim().replace(/\/+$/, "").split("/").pop() ?? ""))
+        .filter(Boolean);
+}
+
+function getQueueSource(): { type: string; id: string } {
+    const pq = getPlayerState()?.playQueue;
+    const { elements, currentIndex } = getPlayQueue();
+    const element = elements[currentIndex];
+    return {
+        type: String(pq?.sourceEntityType ?? element?.context?.type ?? "").toLowerCase(),
+        id: String(pq?.sourceEntityId ?? element?.context?.id ?? "").toLowerCase(),
+    };
+}
+
+function isException(media: MediaItem): boolean {
+    const artists: any[] = media.tidalItem?.artists ?? [];
+    const excludedArtists = parseList(storage.policyArtistExceptions);
+    if (artists.some(a => excludedArtists.includes(String(a?.id)) || excludedArtists.includes(normalizeTitle(String(a?.name ?? ""))))) {
+        return true;
+    }
+
+    const source = getQueueSource();
+    return source.type.includes("playlist") && parseList(storage.policyPlaylistExceptions).includes(source.id);
+}
+
+function isCurrentlyPlaying(mediaId: number): boolean {
+    const ctx = getPlaybackControls()?.playbackContext;
+    return String(ctx?.actualProductId) === String(mediaId);
+}
+
+/** The type the policy wants `media` played as, or undefined to leave it alone. */
+function getPolicyTarget(media: MediaItem): "track" | "video" | undefined {
+    const policy = storage.playbackPolicy as PlaybackPolicy;
+    if (policy === "manual") return undefined;
+
+    const type = getEffectiveType(media, media.contentType as "track" | "video");
+    if (policy === "video" && type !== "track") return undefined;
+    if (policy === "audio") {
+        const source = getQueueSource().type;
+        if (type !== "video" || !(source.includes("mix") || source.includes("radio"))) return undefined;
+    }
+    if (isException(media)) return undefined;
+
+    return policy === "video" ? "video" : "track";
+}
+
+export async function applyPlaybackPolicy(media: MediaItem) {
+    const mediaId = Number(media.id);
+
+    // Never swap an item that was just swapped in, whether by the policy or by hand
+    if (consumeSwitch(mediaId)) return;
+
+    const target = getPolicyTarget(media);
+    if (!target) return;
+
+    const mapping = await resolveMapping(media, { priority: Priority.CURRENT });
+    if (!mapping || !isCurrentlyPlaying(mediaId)) return;
+
+    await switchToMediaItem(target === "video" ? mapping.videoId : mapping.trackId, target);
+}
+
+/** Resolves the next queue item and, when the policy applies to it, swaps it in the queue before it starts. */
+export async function prefetchNextMapping() {
+    if (storage.playbackPolicy === "manual") return;
+
+    const { elements, currentIndex } = getPlayQueue();
+    const next = elements[currentIndex + 1];
+    if (next?.mediaItemId === undefined) return;
+
+    try {
+        const media = await MediaItem.fromId(next.mediaItemId, getMediaTypeById(next.mediaItemId) ?? "track");
+        if (!media) return;
+
+        const mapping = await resolveMapping(media, { priority: Priority.PREFETCH });
+        const target = getPolicyTarget(media);
+        if (!mapping || !target) return;
+
+        await replaceUpcoming(next.uid, target === "video" ? mapping.videoId : mapping.trackId, target);
+    } catch { /* Next item not accessible */ }
+}
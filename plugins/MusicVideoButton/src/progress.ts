@@ -0,0 +1,36 @@
+import { mountOverlay, unmountOverlay } from "@renskursa/plugin-common";
+
+export type ProgressHandle = {
+    update: (done: number, total: number) => void;
+    close: () => void;
+};
+
+export function showProgress(label: string, onCancel: () => void): ProgressHandle {
+    removeProgress();
+
+    const container = document.createElement('div');
+    container.className = 'mv-progress';
+    container.style.cssText = "display: flex; align-items: center; gap: 12px; padding: 10px 14px; border-radius: 8px; background: var(--wave-color-solid-base-brighter, #1f1f1f); color: var(--wave-color-text-primary, #fff); font-size: 0.85rem; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);";
+
+    const text = document.createElement('span');
+    text.textContent = label;
+
+    const cancel = document.createElement('button');
+    cancel.textContent = 'Cancel';
+    cancel.style.cssText = "background: none; border: 1px solid currentColor; border-radius: 4px; color: inherit; padding: 2px 8px; cursor: pointer;";
+    cancel.onclick = onCancel;
+
+    container.append(text, cancel);
+    mountOverlay(container);
+
+    return {
+        update: (done, total) => {
+            text.textContent = `${label} ${done}/${total}`;
+        },
+        close: () => unmountOverlay(container),
+    };
+}
+
+export function removeProgress() {
+    unmountOverlay(document.querySelector('div.mv-progress'));
+}
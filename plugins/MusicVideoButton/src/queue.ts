@@ -0,0 +1,132 @@
+import { MediaItem, TidalApi } from "@luna/lib";
+import { getScheduler } from "@renskursa/request-scheduler";
+import { getMediaTypeById, getPlayQueue } from "@renskursa/plugin-common";
+import { resolveMapping } from "./mapping";
+import { replaceQueue, replaceUpcomingItems, switchToMediaItem } from "./playback";
+import { showProgress } from "./progress";
+import { trace } from "./tracer";
+
+/** "video" replaces tracks with their videos, "audio" replaces videos with their tracks. */
+export type ConversionDirection = "video" | "audio";
+
+type QueueEntry = { id: number; type: "track" | "video" };
+
+// Lookups in flight at once; their requests still queue behind the shared scheduler's own limit
+const CONVERSION_CONCURRENCY = 4;
+
+let activeConversion: AbortController | undefined;
+
+export function cancelConversion() {
+    activeConversion?.abort();
+    activeConversion = undefined;
+}
+
+async function convertEntries(entries: QueueEntry[], direction: ConversionDirection, label: string): Promise<number[] | undefined> {
+    cancelConversion();
+    const controller = new AbortController();
+    activeConversion = controller;
+
+    const progress = showProgress(label, () => controller.abort());
+    const fromType = direction === "video" ? "track" : "video";
+    const converted = entries.map(entry => entry.id);
+    let next = 0;
+    let done = 0;
+
+    const convertEntry = async ({ id, type }: QueueEntry): Promise<number> => {
+        if (type !== fromType) return id;
+        try {
+            const media = await MediaItem.fromId(id, type);
+            const mapping = media ? await resolveMapping(media, { signal: controller.signal }) : undefined;
+            return (direction === "video" ? mapping?.videoId : mapping?.trackId) ?? id;
+        } catch {
+            return id;
+        }
+    };
+
+    const worker = async () => {
+        while (next < entries.length && !controller.signal.aborted) {
+            const index = next++;
+            converted[index] = await convertEntry(entries[index]);
+            progress.update(++done, entries.length);
+        }
+    };
+
+    try {
+        progress.update(0, entries.length);
+        await Promise.all(Array.from({ length: Math.min(CONVERSION_CONCURRENCY, entries.length) }, worker));
+        return controller.signal.aborted ? undefined : converted;
+    } finally {
+        progress.close();
+        if (activeConversion === controller) activeConversion = undefined;
+    }
+}
+
+export async function convertQueue(direction: ConversionDirection) {
+    // Played items are left as they were, since only the playing item and those after it can be replaced
+    const { elements: queue, currentIndex: playingIndex } = getPlayQueue();
+    const elements = queue.slice(Math.max(0, playingIndex));
+    if (elements.length === 0) return;
+
+    const entries = elements.map(el => ({
+        id: Number(el.mediaItemId),
+        type: getMediaTypeById(el.mediaItemId) ?? "track",
+    }));
+
+    const converted = await convertEntries(entries, direction, direction === "video" ? "Converting queue to videos" : "Converting queue to audio");
+    if (!converted) return;
+
+    const targetType = direction === "video" ? "video" : "track";
+    const targets = new Map(elements.flatMap((el, index) => converted[index] !== entries[index].id ? [[el.uid, converted[index]]] : []));
+    if (targets.size === 0) return;
+
+    // The queue may have changed during the conversion, so only the entries still in it are replaced
+    const { elements: queued, currentIndex } = getPlayQueue();
+    const upcoming = queued.slice(currentIndex + 1);
+    const lastChanged = upcoming.map(el => targets.has(el.uid)).lastIndexOf(true);
+    if (lastChanged >= 0) {
+        // Items can only be inserted after the playing one, so everything up to the last changed item goes back in, in order
+        const replaced = upcoming.slice(0, lastChanged + 1);
+        await replaceUpcomingItems(replaced.map(el => el.uid), replaced.map(el => targets.get(el.uid) ?? Number(el.mediaItemId)));
+    }
+
+    // The playing item is switched like the button does
+    const playing = queued[currentIndex];
+    const playingTarget = playing && targets.get(playing.uid);
+    if (playingTarget !== undefined) await switchToMediaItem(playingTarget, targetType);
+}
+
+async function fetchCollectionEntries(kind: "playlists" | "albums", id: string): Promise<QueueEntry[]> {
+    const headers = await TidalApi.getAuthHeaders();
+    const entries: QueueEntry[] = [];
+    const limit = 100;
+
+    for (let offset = 0; ; offset += limit) {
+        const res = await getScheduler().fetch(`https://desktop.tidal.com/v1/${kind}/${id}/items?limit=${limit}&offset=${offset}&${TidalApi.queryArgs()}`, { headers });
+        if (!res.ok) throw new Error(`Failed to load ${kind} ${id}: ${res.status}`);
+
+        const data = await res.json();
+        for (const { item, type } of data?.items ?? []) {
+            if (item?.id !== undefined) entries.push({ id: Number(item.id), type: type === "video" ? "video" : "track" });
+        }
+        if (offset + limit >= (data?.totalNumberOfItems ?? 0)) return entries;
+    }
+}
+
+export function getCollectionFromPath(pathname = location.pathname): { kind: "playlists" | "albums"; id: string } | undefined {
+    const match = pathname.match(/\/(playlist|album)\/([\w-]+)/);
+    if (!match) return undefined;
+    return { kind: match[1] === "playlist" ? "playlists" : "albums", id: match[2] };
+}
+
+export async function playCollectionAs(direction: ConversionDirection, collection = getCollectionFromPath()) {
+    if (!collection) return;
+    try {
+        const entries = await fetchCollectionEntries(collection.kind, collection.id);
+        if (entries.length === 0) return;
+
+        const converted = await convertEntries(entries, direction, direction === "video" ? "Building video session" : "Building audio session");
+        if (converted) await replaceQueue(converted, 0, { type: collection.kind === "playlists" ? "playlist" : "album", id: collection.id });
+    } catch (err) {
+        trace.err.withContext("Failed to convert collection")(err as any);
+    }
+}
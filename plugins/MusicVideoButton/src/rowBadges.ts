@@ -0,0 +1,159 @@
+import { MediaItem } from "@luna/lib";
+import { getScheduler, Priority } from "@renskursa/request-scheduler";
+import { resolveMapping } from "./mapping";
+import { getCachedMapping } from "./cache";
+import { resolvePin } from "./pins";
+import { playNow } from "./playback";
+import { VIDEO_ICON } from "./icons";
+import { storage } from "./Settings";
+
+const ROW_SELECTOR = 'div[data-test="tracklist-row"]';
+const BADGE_CLASS = 'mv-row-badge';
+const SETTLE_DELAY_MS = 300;
+
+// Searches in flight at once; the rest wait until one finishes or their row scrolls away
+const MAX_ROW_SEARCHES = 2;
+
+const visibleRows = new Set<Element>();
+// Rows are recycled while scrolling, so remember which track each one was checked for
+let checkedTracks = new WeakMap<Element, string>();
+const rowSearches = new Map<Element, AbortController>();
+let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+const getRowTrackId = (row: Element) =>
+    row.getAttribute('data-track-id') ??
+    row.querySelector('a[href*="/track/"]')?.getAttribute('href')?.match(/\/track\/(\d+)/)?.[1];
+
+async function searchVideoId(trackId: number, signal: AbortSignal): Promise<number | undefined> {
+    const options = { priority: Priority.PREFETCH, signal };
+    const media = await getScheduler().schedule(() => MediaItem.fromId(trackId, 'track'), options);
+    return media ? (await resolveMapping(media, options))?.videoId : undefined;
+}
+
+function cancelSearch(row: Element) {
+    rowSearches.get(row)?.abort();
+    rowSearches.delete(row);
+}
+
+function setBadge(row: Element, videoId: number | undefined) {
+    row.querySelector(`.${BADGE_CLASS}`)?.remove();
+    if (!videoId) return;
+
+    const badge = document.createElement('button');
+    badge.className = BADGE_CLASS;
+    badge.title = 'Play music video';
+    badge.style.cssText = "display: inline-flex; align-items: center; margin-left: 6px; padding: 0; background: none; border: none; color: var(--wave-color-text-secondary, #919496); cursor: pointer; vertical-align: middle;";
+    badge.innerHTML = `<svg viewBox="0 0 24 24" width="16" height="16">${VIDEO_ICON}</svg>`;
+    // Keep clicks from selecting or playing the row itself
+    badge.onclick = (e) => {
+        e.stopPropagation();
+        playNow(videoId, 'video');
+    };
+    badge.ondblclick = (e) => e.stopPropagation();
+
+    (row.querySelector('[data-test="table-cell-title"]') ?? row).append(badge);
+}
+
+/** Badges the row from a pin or the cache, or searches for it when a slot is free. Returns whether it is done with the row. */
+function checkRow(row: Element): boolean {
+    const trackId = getRowTrackId(row);
+    if (!trackId || checkedTracks.get(row) === trackId) return true;
+
+    const pin = resolvePin(Number(trackId));
+    const known = pin.pinned ? pin.mapping : getCachedMapping(Number(trackId));
+    if (pin.pinned || known) {
+        cancelSearch(row);
+        checkedTracks.set(row, trackId);
+        setBadge(row, known?.videoId);
+        return true;
+    }
+    if (rowSearches.size >= MAX_ROW_SEARCHES) return false;
+
+    cancelSearch(row);
+    checkedTracks.set(row, trackId);
+    setBadge(row, undefined);
+
+    const controller = new AbortController();
+    rowSearches.set(row, controller);
+    searchVideoId(Number(trackId), controller.signal)
+        .then(videoId => {
+            if (getRowTrackId(row) === trackId) setBadge(row, videoId);
+        })
+        .catch(() => {
+            // A row that scrolled away is searched again once it comes back
+            if (controller.signal.aborted && checkedTracks.get(row) === trackId) checkedTracks.delete(row);
+        })
+        .finally(() => {
+            if (rowSearches.get(row) === controller) rowSearches.delete(row);
+            checkVisibleRows();
+        });
+    return true;
+}
+
+// Only rows still on screen once scrolling settles are looked up
+const checkVisibleRows = () => {
+    settleTimer = undefined;
+    for (const row of visibleRows) {
+        if (!checkRow(row)) break;
+    }
+};
+
+const visibilityObserver = new IntersectionObserver((entries) => {
+    for (const entry of entries) {
+        if (entry.isIntersecting) {
+            visibleRows.add(entry.target);
+        } else {
+            visibleRows.delete(entry.target);
+            cancelSearch(entry.target);
+        }
+    }
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(checkVisibleRows, SETTLE_DELAY_MS);
+});
+
+// A recycled row swaps its track link in place without being added again
+const recycleObserver = new MutationObserver((records) => {
+    for (const record of records) {
+        const row = (record.target as Element).closest?.(ROW_SELECTOR);
+        if (row && visibleRows.has(row) && checkedTracks.get(row) !== getRowTrackId(row)) {
+            cancelSearch(row);
+            setBadge(row, undefined);
+        }
+    }
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(checkVisibleRows, SETTLE_DELAY_MS);
+});
+
+/** Starts watching a newly rendered track row. */
+export function watchRow(row: Element) {
+    if (!storage.showRowBadges) return;
+    visibilityObserver.observe(row);
+    recycleObserver.observe(row, { subtree: true, attributes: true, attributeFilter: ['href', 'data-track-id'] });
+}
+
+export function removeRowBadges() {
+    document.querySelectorAll(`.${BADGE_CLASS}`).forEach(el => el.remove());
+}
+
+export function disconnectRowBadges() {
+    visibilityObserver.disconnect();
+    recycleObserver.disconnect();
+    rowSearches.forEach(controller => controller.abort());
+    rowSearches.clear();
+    clearTimeout(settleTimer);
+    settleTimer = undefined;
+    visibleRows.clear();
+    checkedTracks = new WeakMap();
+}
+
+/** Starts watching every rendered track row, or removes all badges when they are turned off. */
+export function refreshRowBadges() {
+    if (!storage.showRowBadges) {
+        disconnectRowBadges();
+        removeRowBadges();
+        return;
+    }
+
+    document.querySelectorAll(ROW_SELECTOR).forEach(watchRow);
+    checkVisibleRows();
+}
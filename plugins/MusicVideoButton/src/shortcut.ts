@@ -0,0 +1,67 @@
+export type Shortcut = { code: string; ctrl: boolean; alt: boolean; shift: boolean; meta: boolean };
+
+type KeyEventLike = Pick<KeyboardEvent, "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">;
+
+const MODIFIER_CODES = /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/;
+
+// Key presses the app acted on this session, so a shortcut that would shadow one of them can be flagged
+const appShortcuts = new Set<string>();
+
+// "KeyV" and "Digit1" read better as "V" and "1"
+const formatCode = (code: string) => code.replace(/^Key(?=[A-Z]$)|^Digit(?=\d$)/, "");
+const parseCode = (key: string) => /^[A-Z]$/i.test(key) ? `Key${key.toUpperCase()}` : /^\d$/.test(key) ? `Digit${key}` : key;
+
+export function formatShortcut(shortcut: Shortcut): string {
+    return [
+        shortcut.ctrl && "Ctrl",
+        shortcut.alt && "Alt",
+        shortcut.shift && "Shift",
+        shortcut.meta && "Meta",
+        formatCode(shortcut.code),
+    ].filter(Boolean).join("+");
+}
+
+export function parseShortcut(text: string): Shortcut | undefined {
+    const parts = text.split("+").map(part => part.trim()).filter(Boolean);
+    const key = parts.pop();
+    if (!key) return undefined;
+
+    const modifiers = new Set(parts.map(part => part.toLowerCase()));
+    return {
+        code: parseCode(key),
+        ctrl: modifiers.has("ctrl") || modifiers.has("control"),
+        alt: modifiers.has("alt"),
+        shift: modifiers.has("shift"),
+        meta: modifiers.has("meta") || modifiers.has("cmd"),
+    };
+}
+
+/** The shortcut a key press makes, or undefined while only modifiers are held. */
+export function shortcutFromEvent(event: KeyEventLike): Shortcut | undefined {
+    if (!event.code || MODIFIER_CODES.test(event.code)) return undefined;
+    return { code: event.code, ctrl: event.ctrlKey, alt: event.altKey, shift: event.shiftKey, meta: event.metaKey };
+}
+
+export function matchesShortcut(event: KeyEventLike, shortcut: Shortcut): boolean {
+    const pressed = shortcutFromEvent(event);
+    return !!pressed && formatShortcut(pressed) === formatShortcut(shortcut);
+}
+
+/** Remembers a key press the app handled, i.e. one it called `preventDefault` on outside a text field. */
+export function noteAppShortcut(event: KeyEventLike) {
+    const pressed = shortcutFromEvent(event);
+    if (pressed) appShortcuts.add(formatShortcut(pressed));
+}
+
+/** Why `text` makes a poor shortcut, or undefined when it is free. */
+export function getShortcutConflict(text: string): string | undefined {
+    const shortcut = parseShortcut(text);
+    if (!shortcut) return undefined;
+
+    const formatted = formatShortcut(shortcut);
+    if (appShortcuts.has(formatted)) return `${formatted} is already used by TIDAL`;
+    if (!shortcut.ctrl && !shortcut.alt && !shortcut.meta && /^(Key|Digit)/.test(shortcut.code)) {
+        return `${formatted} would also fire while typing. Add Ctrl, Alt or Meta`;
+    }
+    return undefined;
+}
@@ -0,0 +1,22 @@
+const TOAST_VISIBLE_MS = 3000;
+
+let hideTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function removeToast() {
+    clearTimeout(hideTimer);
+    document.querySelector('div.mv-toast')?.remove();
+}
+
+/** Shows a short message above the player, e.g. when a shortcut has nothing to switch to. */
+export function showToast(message: string) {
+    removeToast();
+
+    const toast = document.createElement('div');
+    toast.className = 'mv-toast';
+    toast.setAttribute('role', 'status');
+    toast.style.cssText = "position: fixed; left: 50%; bottom: 120px; transform: translateX(-50%); z-index: 10000; padding: 8px 14px; border-radius: 8px; background: var(--wave-color-solid-base-brighter, #1f1f1f); color: var(--wave-color-text-primary, #fff); font-size: 0.85rem; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4); pointer-events: none;";
+    toast.textContent = message;
+
+    document.body.append(toast);
+    hideTimer = setTimeout(removeToast, TOAST_VISIBLE_MS);
+}
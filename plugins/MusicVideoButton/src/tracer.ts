@@ -0,0 +1,3 @@
+import { Tracer } from "@luna/core";
+
+export const { trace, errSignal } = Tracer("[MusicVideoButton]");
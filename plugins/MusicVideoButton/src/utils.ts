@@ -1,46 +1,6 @@
-import { MediaItem, redux } from "@luna/lib";
-
-const MATCH_WORDS = {
-    OFFICIAL: ["official music video", "official video", "official mv"],
-    VIDEO: ["music video", "mv", "video"],
-    QUALITY: ["hd", "4k", "uhd"],
-    REJECT: ["lyrics", "lyric video", "behind the scenes", "bts", "interview", "making of", "teaser", "trailer", "snippet", "shorts", "reaction", "fan", "cover", "dance"],
-    VERSIONS: ["remix", "mix", "edit", "vip", "mashup", "version", "acoustic", "live", "instrumental", "slowed", "reverb", "remaster", "remastered", "extended", "radio", "club", "karaoke"]
-};
-
-export function pruneCache<K, V>(cache: Map<K, V>, maxSize = 1000, keepSize = 500) {
-    if (cache.size > maxSize) {
-        const entries = Array.from(cache.entries()).slice(-keepSize);
-        cache.clear();
-        entries.forEach(([k, v]) => cache.set(k, v));
-    }
-}
-
-export function pruneSet<T>(set: Set<T>, maxSize = 1000, keepSize = 500) {
-    if (set.size > maxSize) {
-        const entries = Array.from(set).slice(-keepSize);
-        set.clear();
-        entries.forEach(item => set.add(item));
-    }
-}
-
-export function getCurrentSeekSeconds(): number {
-    const state = redux.store.getState() as any;
-    const pc = state?.playbackControls as any;
-    if (!pc) return 0;
-    const base = Number(pc.latestCurrentTime ?? 0);
-    if (pc.playbackState === 'PLAYING' && typeof pc.latestCurrentTimeSyncTimestamp === 'number') {
-        const elapsed = (Date.now() - pc.latestCurrentTimeSyncTimestamp) / 1000;
-        const duration = Number(pc.playbackContext?.actualDuration ?? Infinity);
-        return Math.max(0, Math.min(duration, base + elapsed));
-    }
-    return base;
-}
-
-export function getMediaTypeById(id: number | string): "track" | "video" | undefined {
-    const media = (redux.store.getState().content?.mediaItems ?? {})[String(id)] as any;
-    return media?.type;
-}
+import { MediaItem } from "@luna/lib";
+import { getMediaTypeById } from "@renskursa/plugin-common";
+import { getMatchWords, containsWord } from "./vocabulary";
 
 export function getEffectiveType(current?: MediaItem, fallback?: 'track' | 'video') {
     const storeType = current ? getMediaTypeById(current.id) : undefined;
@@ -64,20 +24,38 @@ export function getBaseString(s: string): string {
     return stripped.length < 3 ? s.replace(/\s+/g, ' ').trim() : stripped;
 }
 
-export function scoreTitleMatch(normalizedOriginal: string, candidateTitle: string): number {
+/** The rule in `scoreTitleMatch` that decided a candidate's title score, with the keyword or ratio behind it. */
+export type TitleRule =
+    | "rejected-word"
+    | "version-mismatch"
+    | "base-mismatch"
+    | "strict-boundary"
+    | "official"
+    | "video"
+    | "quality"
+    | "exact"
+    | "contains"
+    | "compact"
+    | "word-overlap"
+    | "no-overlap";
+
+export type TitleMatch = { rule: TitleRule; score: number; detail?: string };
+
+export function scoreTitleMatch(normalizedOriginal: string, candidateTitle: string): TitleMatch {
     const t = normalizeTitle(candidateTitle);
+    const matchWords = getMatchWords();
     
-    if (MATCH_WORDS.REJECT.some(kw => t.includes(kw))) {
-        return 0;
+    const rejected = matchWords.REJECT.find(kw => containsWord(t, kw));
+    if (rejected) {
+        return { rule: "rejected-word", score: 0, detail: rejected };
     }
 
-    for (const kw of MATCH_WORDS.VERSIONS) {
-        const regex = new RegExp(`\\b${kw}\\b`);
-        const originalHas = regex.test(normalizedOriginal);
-        const candidateHas = regex.test(t);
+    for (const kw of matchWords.VERSIONS) {
+        const originalHas = containsWord(normalizedOriginal, kw);
+        const candidateHas = containsWord(t, kw);
         
         if (originalHas !== candidateHas) {
-            return 0;
+            return { rule: "version-mismatch", score: 0, detail: kw };
         }
     }
 
@@ -85,22 +63,25 @@ export function scoreTitleMatch(normalizedOriginal: string, candidateTitle: stri
     const baseCandidate = getBaseString(t);
 
     if (!baseCandidate.includes(baseOriginal) && !baseOriginal.includes(baseCandidate)) {
-        return 0; 
+        return { rule: "base-mismatch", score: 0, detail: baseCandidate }; 
     }
 
     if (t.includes(normalizedOriginal)) {
-        if (!hasStrictBoundary(t, normalizedOriginal)) return 0;
+        if (!hasStrictBoundary(t, normalizedOriginal)) return { rule: "strict-boundary", score: 0 };
         
-        if (MATCH_WORDS.OFFICIAL.some(kw => t.includes(kw))) return 1000; 
-        if (MATCH_WORDS.VIDEO.some(kw => t.includes(kw))) return 800;
-        if (MATCH_WORDS.QUALITY.some(kw => t.includes(kw))) return 600;
-        if (t === normalizedOriginal) return 500;
-        return 100; // Minimal score for general inclusion
+        const official = matchWords.OFFICIAL.find(kw => containsWord(t, kw));
+        if (official) return { rule: "official", score: 1000, detail: official }; 
+        const video = matchWords.VIDEO.find(kw => containsWord(t, kw));
+        if (video) return { rule: "video", score: 800, detail: video };
+        const quality = matchWords.QUALITY.find(kw => containsWord(t, kw));
+        if (quality) return { rule: "quality", score: 600, detail: quality };
+        if (t === normalizedOriginal) return { rule: "exact", score: 500 };
+        return { rule: "contains", score: 100 }; // Minimal score for general inclusion
     }
     
     const cleanOrig = normalizedOriginal.replace(/[^a-z0-9]/g, '');
     const cleanCand = t.replace(/[^a-z0-9]/g, '');
-    if (cleanCand.includes(cleanOrig)) return 80;
+    if (cleanCand.includes(cleanOrig)) return { rule: "compact", score: 80 };
 
     const wordsOrig = normalizedOriginal.replace(/[^a-z0-9\s]/g, '').split(/\s+/).filter(Boolean);
     const wordsCand = t.replace(/[^a-z0-9\s]/g, '').split(/\s+/).filter(Boolean);
@@ -110,11 +91,108 @@ export function scoreTitleMatch(normalizedOriginal: string, candidateTitle: stri
         if (wordsCand.includes(w)) overlap++;
     }
     
+    const detail = `${overlap}/${wordsOrig.length}`;
     if (wordsOrig.length > 0 && overlap / wordsOrig.length >= 0.8) {
-        return 50;
+        return { rule: "word-overlap", score: 50, detail };
+    }
+
+    return { rule: "no-overlap", score: 0, detail };
+}
+
+/** A credited artist; either part may be missing, but not both. */
+export type ReferenceArtist = { id?: number; name?: string };
+
+export type MatchReference = {
+    normalizedTitle: string;
+    artists: ReferenceArtist[];
+    duration?: number;
+    albumId?: number;
+    isrc?: string;
+};
+
+export function buildMatchReference(title: string, tidalItem?: any, fallbackArtist?: string): MatchReference {
+    const credited: any[] = tidalItem?.artists ?? (tidalItem?.artist ? [tidalItem.artist] : []);
+    // Each id stays paired with its own name, even when the other artist's is missing
+    const artists = credited
+        .map((a): ReferenceArtist => ({
+            id: isNaN(Number(a?.id)) ? undefined : Number(a.id),
+            name: normalizeTitle(String(a?.name ?? "")) || undefined,
+        }))
+        .filter(a => a.id !== undefined || a.name !== undefined);
+    // The fallback is the main artist's name
+    if (!artists.some(a => a.name) && fallbackArtist) {
+        const name = normalizeTitle(fallbackArtist);
+        if (artists[0]) artists[0].name = name;
+        else artists.push({ name });
     }
 
-    return 0;
+    return {
+        normalizedTitle: normalizeTitle(title),
+        artists,
+        duration: typeof tidalItem?.duration === "number" ? tidalItem.duration : undefined,
+        albumId: tidalItem?.album?.id,
+        isrc: tidalItem?.isrc,
+    };
+}
+
+/** Share of the original's main and featured artists credited on the candidate, from 0 to 1. */
+export function scoreArtistOverlap(reference: MatchReference, item: any): number | undefined {
+    const artists: any[] = item?.artists ?? (item?.artist ? [item.artist] : []);
+    const total = reference.artists.length;
+    if (total === 0 || artists.length === 0) return undefined;
+
+    const ids = new Set(artists.map(a => Number(a?.id)));
+    const names = artists.map(a => normalizeTitle(String(a?.name ?? "")));
+    const itemTitle = normalizeTitle(String(item?.title ?? ""));
+
+    const matched = reference.artists.filter(({ id, name }) =>
+        (id !== undefined && ids.has(id)) || (name && (names.some(n => n === name || n.includes(name)) || itemTitle.includes(name)))
+    );
+    return matched.length / total;
+}
+
+/** Closeness of the candidate's duration to the original's, from 0 to 1 within a one minute window. */
+export function scoreDurationCloseness(reference: MatchReference, item: any, windowSeconds = 60): number | undefined {
+    if (reference.duration === undefined || typeof item?.duration !== "number") return undefined;
+    return Math.max(0, 1 - Math.abs(item.duration - reference.duration) / windowSeconds);
+}
+
+export function sharesRelease(reference: MatchReference, item: any): boolean {
+    if (reference.isrc && item?.isrc && reference.isrc === item.isrc) return true;
+    return reference.albumId !== undefined && item?.album?.id === reference.albumId;
+}
+
+export type CandidateScore = {
+    score: number;
+    title: TitleMatch;
+    artist?: number;
+    duration?: number;
+    sharesRelease: boolean;
+};
+
+/**
+ * Combines the title score with artist, duration and release signals.
+ * A candidate with no credited artist in common keeps only a quarter of its title score.
+ */
+export function scoreCandidate(reference: MatchReference, item: any): CandidateScore {
+    const itemTitle = item?.version ? `${item.title} (${item.version})` : (item?.title ?? "");
+    const title = scoreTitleMatch(reference.normalizedTitle, String(itemTitle));
+    const artist = scoreArtistOverlap(reference, item);
+    const duration = scoreDurationCloseness(reference, item);
+    const release = sharesRelease(reference, item);
+    if (title.score === 0) return { score: 0, title, artist, duration, sharesRelease: release };
+
+    return {
+        score: Math.round(
+            title.score * (0.25 + 0.75 * (artist ?? 0.5)) +
+            200 * (duration ?? 0) +
+            (release ? 300 : 0)
+        ),
+        title,
+        artist,
+        duration,
+        sharesRelease: release,
+    };
 }
 
 export function hasStrictBoundary(title: string, normalizedOriginal: string): boolean {
@@ -127,10 +205,11 @@ export function hasStrictBoundary(title: string, normalizedOriginal: string): bo
     after = after.replace(/^[-–—:|•~*.,'"\s]+/, "").trim();
     if (after.length === 0) return true;
 
+    const matchWords = getMatchWords();
     const allowed = [
-        ...MATCH_WORDS.OFFICIAL,
-        ...MATCH_WORDS.VIDEO,
-        ...MATCH_WORDS.QUALITY
+        ...matchWords.OFFICIAL,
+        ...matchWords.VIDEO,
+        ...matchWords.QUALITY
     ];
 
     if (after.startsWith("(") || after.startsWith("[")) {
@@ -143,7 +222,7 @@ export function hasStrictBoundary(title: string, normalizedOriginal: string): bo
         return rest.length === 0;
     }
     for (const suf of allowed) {
-        if (after.startsWith(suf)) {
+        if (after.startsWith(suf) && containsWord(after.slice(0, suf.length + 1), suf)) {
             const rest = after.slice(suf.length).replace(/^[-–—:|•~*.,'"\s]+/, "").trim();
             return rest.length === 0;
         }
@@ -153,22 +232,23 @@ export function hasStrictBoundary(title: string, normalizedOriginal: string): bo
 }
 
 export function extractSongName(title: string): string {
+    const matchWords = getMatchWords();
     let cleaned = title.replace(/[[(](.*?)[\])]/g, (match, content) => {
         const normalizedContent = content.toLowerCase().trim();
-        const allKeywords = [...MATCH_WORDS.OFFICIAL, ...MATCH_WORDS.VIDEO, ...MATCH_WORDS.QUALITY, ...MATCH_WORDS.REJECT];
+        const allKeywords = [...matchWords.OFFICIAL, ...matchWords.VIDEO, ...matchWords.QUALITY, ...matchWords.REJECT];
         
-        if (allKeywords.some(kw => normalizedContent.includes(kw))) {
+        if (allKeywords.some(kw => containsWord(normalizedContent, kw))) {
             return "";
         }
         return match;
     }).trim();
     
     // Remove trailing suffixes not in brackets
-    const suffixes = [...MATCH_WORDS.OFFICIAL, ...MATCH_WORDS.VIDEO, ...MATCH_WORDS.QUALITY];
+    const suffixes = [...matchWords.OFFICIAL, ...matchWords.VIDEO, ...matchWords.QUALITY];
     let lowerCleaned = cleaned.toLowerCase();
     
     for (const suffix of suffixes) {
-        if (lowerCleaned.endsWith(suffix)) {
+        if (lowerCleaned.endsWith(suffix) && containsWord(lowerCleaned.slice(-suffix.length - 1), suffix)) {
             cleaned = cleaned.substring(0, cleaned.length - suffix.length).trim();
             lowerCleaned = cleaned.toLowerCase();
         }
@@ -0,0 +1,128 @@
+import { ReactiveStore } from "@luna/core";
+
+export type MatchWordCategory = "OFFICIAL" | "VIDEO" | "QUALITY" | "REJECT" | "VERSIONS";
+export type MatchWords = Record<MatchWordCategory, string[]>;
+
+export const MATCH_WORD_CATEGORIES: MatchWordCategory[] = ["OFFICIAL", "VIDEO", "QUALITY", "REJECT", "VERSIONS"];
+
+const BASE_MATCH_WORDS: MatchWords = {
+    OFFICIAL: ["official music video", "official video", "official mv"],
+    VIDEO: ["music video", "mv", "video"],
+    QUALITY: ["hd", "4k", "uhd"],
+    REJECT: ["lyrics", "lyric video", "behind the scenes", "bts", "interview", "making of", "teaser", "trailer", "snippet", "shorts", "reaction", "fan", "cover", "dance"],
+    VERSIONS: ["remix", "mix", "edit", "vip", "mashup", "version", "acoustic", "live", "instrumental", "slowed", "reverb", "remaster", "remastered", "extended", "radio", "club", "karaoke"]
+};
+
+export const LANGUAGE_PACKS: Record<string, { name: string; words: Partial<MatchWords> }> = {
+    de: {
+        name: "German",
+        words: {
+            OFFICIAL: ["offizielles musikvideo", "offizielles video"],
+            VIDEO: ["musikvideo"],
+            REJECT: ["songtext", "hinter den kulissen"],
+            VERSIONS: ["akustik", "akustikversion", "neuaufnahme"],
+        },
+    },
+    es: {
+        name: "Spanish",
+        words: {
+            OFFICIAL: ["video oficial", "videoclip oficial", "vídeo oficial"],
+            VIDEO: ["videoclip", "vídeo musical", "video musical"],
+            REJECT: ["letra", "detrás de cámaras", "entrevista"],
+            VERSIONS: ["en vivo", "en directo", "acústico", "versión"],
+        },
+    },
+    pt: {
+        name: "Portuguese",
+        words: {
+            OFFICIAL: ["clipe oficial", "videoclipe oficial", "vídeo oficial"],
+            VIDEO: ["clipe", "videoclipe"],
+            REJECT: ["letra", "bastidores", "entrevista"],
+            VERSIONS: ["ao vivo", "acústico", "versão"],
+        },
+    },
+    fr: {
+        name: "French",
+        words: {
+            OFFICIAL: ["clip officiel", "vidéo officielle"],
+            VIDEO: ["clip"],
+            REJECT: ["paroles", "coulisses"],
+            VERSIONS: ["en direct", "en concert", "acoustique"],
+        },
+    },
+    it: {
+        name: "Italian",
+        words: {
+            OFFICIAL: ["video ufficiale", "videoclip ufficiale"],
+            REJECT: ["testo", "dietro le quinte"],
+            VERSIONS: ["dal vivo", "acustica", "acustico", "versione"],
+        },
+    },
+    ja: {
+        name: "Japanese",
+        words: {
+            OFFICIAL: ["公式mv", "公式ミュージックビデオ", "オフィシャルmv"],
+            VIDEO: ["ミュージックビデオ", "ミュージッククリップ", "pv"],
+            REJECT: ["歌詞", "メイキング", "予告", "ティザー"],
+            VERSIONS: ["ライブ", "リミックス", "アコースティック", "インスト"],
+        },
+    },
+    ko: {
+        name: "Korean",
+        words: {
+            OFFICIAL: ["공식 뮤직비디오", "공식 mv"],
+            VIDEO: ["뮤직비디오", "뮤비"],
+            REJECT: ["가사", "비하인드", "티저", "메이킹"],
+            VERSIONS: ["라이브", "리믹스", "어쿠스틱"],
+        },
+    },
+    zh: {
+        name: "Chinese",
+        words: {
+            OFFICIAL: ["官方mv", "官方版", "官方完整版"],
+            VIDEO: ["音乐录影带", "音樂錄影帶", "mv"],
+            REJECT: ["歌词", "歌詞", "花絮", "预告", "預告"],
+            VERSIONS: ["现场", "現場", "混音", "伴奏"],
+        },
+    },
+};
+
+export const vocabularyStorage = await ReactiveStore.getPluginStorage("MusicVideoButton.vocabulary", {
+    languagePacks: [] as string[],
+    customWords: { OFFICIAL: "", VIDEO: "", QUALITY: "", REJECT: "", VERSIONS: "" } as Record<MatchWordCategory, string>,
+});
+
+let cachedKey = "";
+let cachedWords: MatchWords = BASE_MATCH_WORDS;
+
+const toVariants = (word: string) => [word.toLowerCase().trim(), word.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim()];
+
+/**
+ * Returns the built-in English words merged with the enabled language packs and the user's own words.
+ * Each word is included both as typed and without diacritics, so it matches raw and normalized titles.
+ */
+export function getMatchWords(): MatchWords {
+    const key = JSON.stringify([vocabularyStorage.languagePacks, vocabularyStorage.customWords]);
+    if (key === cachedKey) return cachedWords;
+
+    const words = {} as MatchWords;
+    for (const category of MATCH_WORD_CATEGORIES) {
+        const merged = [
+            ...BASE_MATCH_WORDS[category],
+            ...vocabularyStorage.languagePacks.flatMap(pack => LANGUAGE_PACKS[pack]?.words[category] ?? []),
+            ...(vocabularyStorage.customWords[category] ?? "").split(","),
+        ];
+        words[category] = [...new Set(merged.flatMap(toVariants))].filter(Boolean);
+    }
+
+    cachedKey = key;
+    cachedWords = words;
+    return words;
+}
+
+/** Whole-word match for space-separated scripts, substring match for scripts written without spaces. */
+export function containsWord(text: string, word: string): boolean {
+    if (!/^[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}\s'-]+$/u.test(word)) return text.includes(word);
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "u").test(text);
+}
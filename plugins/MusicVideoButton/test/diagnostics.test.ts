@@ -0,0 +1,32 @@
+import { describe, test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { clearLookups, formatLookupSummary, getLookups, recordKnownLookup } from "../src/diagnostics";
+import { storage } from "../src/Settings";
+
+const mapping = { trackId: 1, videoId: 2 };
+
+describe("lookup diagnostics", () => {
+    beforeEach(() => {
+        clearLookups();
+        storage.diagnosticsLimit = 2;
+    });
+
+    test("drop background lookups before the user's own", () => {
+        recordKnownLookup("first", "cache", mapping, false);
+        recordKnownLookup("badge", "cache", mapping, true);
+        recordKnownLookup("second", "pin", mapping, false);
+        assert.deepEqual(getLookups().map(l => l.query), ["second", "first"]);
+    });
+
+    test("keep one entry per query and source", () => {
+        recordKnownLookup("song", "cache", mapping, false);
+        recordKnownLookup("song", "cache", mapping, false);
+        recordKnownLookup("song", "pin", undefined, true);
+        assert.deepEqual(getLookups().map(l => l.source), ["pin", "cache"]);
+    });
+
+    test("say where the answer came from", () => {
+        recordKnownLookup("song", "pin", undefined, true);
+        assert.equal(formatLookupSummary(getLookups()[0]), "never offered a video (pinned in Settings, in the background)");
+    });
+});
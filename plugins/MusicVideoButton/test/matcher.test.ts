@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Priority } from "@renskursa/request-scheduler";
+import { loadFixtures, evaluate, formatReport, replayFixture, runFixture } from "./matcherHarness";
+import { resolveMapping } from "../src/mapping";
+import { getLookups } from "../src/diagnostics";
+import { getCacheSize } from "../src/cache";
+
+const MIN_PRECISION = 1;
+const MIN_RECALL = 1;
+
+test("matcher resolves the labeled pair for every recorded search", async (t) => {
+    const report = await evaluate(await loadFixtures());
+    for (const line of formatReport(report).split("\n")) t.diagnostic(line);
+
+    for (const { fixture, actual, correct } of report.results) {
+        assert.ok(correct, `${fixture.name} (${fixture.description}): expected ${JSON.stringify(fixture.expected)}, got ${JSON.stringify(actual)}`);
+    }
+    assert.ok(report.precision >= MIN_PRECISION, `precision ${report.precision} below ${MIN_PRECISION}`);
+    assert.ok(report.recall >= MIN_RECALL, `recall ${report.recall} below ${MIN_RECALL}`);
+});
+
+test("server errors are retried next time, rejected searches are remembered as failed", async () => {
+    const fixtures = await loadFixtures();
+    for (const [name, failed] of [["search-error", 0], ["search-rejected", 1]] as const) {
+        await runFixture(fixtures.find(f => f.name === name)!);
+        assert.equal(getCacheSize().failed, failed, name);
+    }
+});
+
+test("diagnostics explain why the top candidate was passed over", async () => {
+    const [fixture] = (await loadFixtures()).filter(f => f.name === "inaccessible-top-video");
+    await runFixture(fixture);
+
+    const [lookup] = getLookups();
+    assert.equal(lookup.outcome, "matched");
+    const videos = lookup.candidates.filter(c => c.type === "video");
+    assert.equal(videos[0].outcome, "inaccessible");
+    assert.match(videos[0].error!, /not accessible/);
+    assert.equal(videos[1].outcome, "chosen");
+});
+
+test("a search shared with a background lookup outlives it", async () => {
+    const fixture = (await loadFixtures()).find(f => f.expected !== null)!;
+    const [background, current] = await replayFixture(fixture, media => {
+        const badge = new AbortController();
+        // The badge's row scrolls away once the search is running
+        const replay = globalThis.fetch;
+        globalThis.fetch = (...args) => {
+            badge.abort();
+            return replay(...args);
+        };
+        return Promise.all([
+            resolveMapping(media, { priority: Priority.PREFETCH, signal: badge.signal }),
+            resolveMapping(media, { priority: Priority.CURRENT, signal: new AbortController().signal }),
+        ]);
+    });
+
+    assert.equal(background, undefined);
+    assert.deepEqual(current, fixture.expected);
+    assert.equal(getLookups()[0].background, false);
+});
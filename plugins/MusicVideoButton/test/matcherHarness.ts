@@ -0,0 +1,97 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RequestScheduler, setScheduler } from "@renskursa/request-scheduler";
+import { MediaItem, lunaStub } from "./stubs/lunaLib";
+import { resolveMapping, clearCaches } from "../src/mapping";
+import { vocabularyStorage } from "../src/vocabulary";
+import type { SongVideoMapping } from "../src/cache";
+
+type RecordedResponse = { status: number; body: unknown };
+
+export type MatcherFixture = {
+    name: string;
+    description: string;
+    languagePacks: string[];
+    media: { id: number; contentType: "track" | "video"; tidalItem: any };
+    responses: Record<"TRACKS" | "VIDEOS", RecordedResponse>;
+    inaccessibleIds: number[];
+    expected: SongVideoMapping | null;
+};
+
+export type FixtureResult = {
+    fixture: MatcherFixture;
+    actual: SongVideoMapping | null;
+    correct: boolean;
+};
+
+export type EvaluationReport = {
+    results: FixtureResult[];
+    precision: number;
+    recall: number;
+};
+
+export async function loadFixtures(dir = join(import.meta.dirname, "fixtures")): Promise<MatcherFixture[]> {
+    const files = (await readdir(dir)).filter(file => file.endsWith(".json")).sort();
+    return Promise.all(files.map(async file => ({
+        name: file.replace(/\.json$/, ""),
+        ...JSON.parse(await readFile(join(dir, file), "utf8")),
+    })));
+}
+
+/** Serves the fixture's recorded search responses while `run` looks up its media item. */
+export async function replayFixture<T>(fixture: MatcherFixture, run: (media: MediaItem) => Promise<T>): Promise<T> {
+    // Recorded server errors are retried like live ones, just without waiting between attempts
+    setScheduler(new RequestScheduler({ baseDelayMs: 0 }));
+    clearCaches();
+    vocabularyStorage.languagePacks = fixture.languagePacks;
+    lunaStub.inaccessibleIds = new Set(fixture.inaccessibleIds);
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input: string | URL | Request) => {
+        const url = new URL(String(input));
+        const recorded = fixture.responses[url.searchParams.get("types") as "TRACKS" | "VIDEOS"];
+        if (!recorded) throw new Error(`No recorded response for ${url}`);
+        return new Response(JSON.stringify(recorded.body), { status: recorded.status });
+    };
+
+    try {
+        const { id, contentType, tidalItem } = fixture.media;
+        return await run(new MediaItem(id, contentType, tidalItem));
+    } finally {
+        globalThis.fetch = originalFetch;
+    }
+}
+
+/** Replays the fixture's recorded search responses through `resolveMapping`. */
+export async function runFixture(fixture: MatcherFixture): Promise<FixtureResult> {
+    const actual = (await replayFixture(fixture, media => resolveMapping(media))) ?? null;
+    const correct = actual?.trackId === fixture.expected?.trackId && actual?.videoId === fixture.expected?.videoId;
+    return { fixture, actual, correct };
+}
+
+/**
+ * Precision is the share of returned mappings that match the label,
+ * recall the share of labeled mappings that were returned.
+ */
+export async function evaluate(fixtures: MatcherFixture[]): Promise<EvaluationReport> {
+    const results: FixtureResult[] = [];
+    for (const fixture of fixtures) results.push(await runFixture(fixture));
+
+    const returned = results.filter(r => r.actual !== null);
+    const labeled = results.filter(r => r.fixture.expected !== null);
+    const truePositives = returned.filter(r => r.correct).length;
+
+    return {
+        results,
+        precision: returned.length ? truePositives / returned.length : 1,
+        recall: labeled.length ? truePositives / labeled.length : 1,
+    };
+}
+
+export function formatReport(report: EvaluationReport): string {
+    const lines = report.results.map(({ fixture, actual, correct }) =>
+        `${correct ? "ok  " : "FAIL"} ${fixture.name}: expected ${JSON.stringify(fixture.expected)}, got ${JSON.stringify(actual)}`
+    );
+    lines.push(`precision ${(report.precision * 100).toFixed(1)}%, recall ${(report.recall * 100).toFixed(1)}% over ${report.results.length} fixtures`);
+    return lines.join("\n");
+}
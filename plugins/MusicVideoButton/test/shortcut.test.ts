@@ -0,0 +1,41 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { formatShortcut, getShortcutConflict, matchesShortcut, noteAppShortcut, parseShortcut, shortcutFromEvent } from "../src/shortcut";
+
+const press = (code: string, mods: { ctrl?: boolean; alt?: boolean; shift?: boolean; meta?: boolean } = {}) => ({
+    code,
+    ctrlKey: !!mods.ctrl,
+    altKey: !!mods.alt,
+    shiftKey: !!mods.shift,
+    metaKey: !!mods.meta,
+});
+
+describe("shortcuts", () => {
+    test("round-trip through text", () => {
+        for (const text of ["Alt+M", "Ctrl+Shift+V", "Meta+1", "F9", "Ctrl+ArrowUp"]) {
+            assert.equal(formatShortcut(parseShortcut(text)!), text);
+        }
+        assert.equal(formatShortcut(parseShortcut("shift + ctrl + v")!), "Ctrl+Shift+V");
+    });
+
+    test("match key presses by physical key and modifiers", () => {
+        const shortcut = parseShortcut("Alt+M")!;
+        assert.equal(matchesShortcut(press("KeyM", { alt: true }), shortcut), true);
+        assert.equal(matchesShortcut(press("KeyM", { alt: true, shift: true }), shortcut), false);
+        assert.equal(matchesShortcut(press("KeyM"), shortcut), false);
+    });
+
+    test("ignore presses of modifiers alone", () => {
+        assert.equal(shortcutFromEvent(press("ShiftLeft", { shift: true })), undefined);
+        assert.equal(formatShortcut(shortcutFromEvent(press("KeyV", { ctrl: true, shift: true }))!), "Ctrl+Shift+V");
+    });
+
+    test("report conflicts", () => {
+        assert.equal(getShortcutConflict("Ctrl+K"), undefined);
+        noteAppShortcut(press("KeyK", { ctrl: true }));
+        assert.match(getShortcutConflict("Ctrl+K")!, /already used/);
+        assert.match(getShortcutConflict("M")!, /typing/);
+        assert.equal(getShortcutConflict("Alt+M"), undefined);
+        assert.equal(getShortcutConflict(""), undefined);
+    });
+});
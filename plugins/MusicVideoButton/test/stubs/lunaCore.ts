@@ -0,0 +1,11 @@
+export type LunaUnload = () => unknown;
+
+export const ReactiveStore = {
+    getPluginStorage: async <T>(_pluginName: string, defaults: T): Promise<T> => structuredClone(defaults),
+};
+
+const noop = () => {};
+export const Tracer = (_name: string) => ({
+    trace: { err: { withContext: () => noop }, warn: { withContext: () => noop }, log: noop },
+    errSignal: undefined,
+});
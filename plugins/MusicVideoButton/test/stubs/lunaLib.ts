@@ -0,0 +1,48 @@
+import type { LunaUnload } from "./lunaCore";
+
+/** Test controls for the stubbed TIDAL client. */
+export const lunaStub = {
+    inaccessibleIds: new Set<number>(),
+    state: {} as any,
+};
+
+export class MediaItem {
+    constructor(
+        public id: number,
+        public contentType: "track" | "video",
+        public tidalItem: any = {},
+    ) {}
+
+    static async fromId(id: number | string, type: "track" | "video" = "track"): Promise<MediaItem> {
+        if (lunaStub.inaccessibleIds.has(Number(id))) throw new Error(`${type} ${id} is not accessible`);
+        return new MediaItem(Number(id), type, { id: Number(id) });
+    }
+
+    static onMediaTransition(_unloads: Set<LunaUnload>, _cb: (media: MediaItem) => unknown) {}
+
+    async title(): Promise<string | undefined> {
+        return this.tidalItem?.title;
+    }
+
+    async artist(): Promise<any> {
+        return this.tidalItem?.artist;
+    }
+}
+
+export const TidalApi = {
+    getAuthHeaders: async () => ({}),
+    queryArgs: () => "countryCode=US&locale=en_US&deviceType=DESKTOP",
+};
+
+export const redux = {
+    store: { getState: () => lunaStub.state },
+    actions: new Proxy({}, { get: () => async () => {} }) as Record<string, (...args: any[]) => Promise<void>>,
+};
+
+export const PlayState = {
+    play: () => {},
+    playNext: (_ids: number[]) => {},
+    seek: (_seconds: number) => {},
+};
+
+export const observe = (_unloads: Set<LunaUnload>, _selector: string, _cb: (el: Element) => unknown) => {};
@@ -0,0 +1,9 @@
+const component = () => null;
+
+export const LunaSettings = component;
+export const LunaSwitchSetting = component;
+export const LunaButtonSetting = component;
+export const LunaNumberSetting = component;
+export const LunaTextSetting = component;
+export const LunaSelectSetting = component;
+export const LunaSelectItem = component;
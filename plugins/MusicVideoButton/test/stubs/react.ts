@@ -0,0 +1,8 @@
+const React = {
+    useState: <T>(initial: T | (() => T)) => [typeof initial === "function" ? (initial as () => T)() : initial, () => {}],
+};
+
+export default React;
+export const jsx = () => null;
+export const jsxs = () => null;
+export const Fragment = Symbol("Fragment");
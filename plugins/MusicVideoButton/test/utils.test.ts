@@ -0,0 +1,134 @@
+import { describe, test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTitle, getBaseString, extractSongName, hasStrictBoundary, scoreTitleMatch, buildMatchReference, scoreArtistOverlap } from "../src/utils";
+import { vocabularyStorage } from "../src/vocabulary";
+
+describe("normalizeTitle", () => {
+    test("strips diacritics", () => {
+        assert.equal(normalizeTitle("Café Del Mar"), "cafe del mar");
+        assert.equal(normalizeTitle("Señorita"), "senorita");
+    });
+
+    test("drops quotes and punctuation, including typographic apostrophes", () => {
+        assert.equal(normalizeTitle("Don’t Stop Me Now!"), "dont stop me now");
+    });
+
+    test("collapses and trims whitespace", () => {
+        assert.equal(normalizeTitle("  Hello,   World. "), "hello world");
+    });
+});
+
+describe("getBaseString", () => {
+    test("removes bracketed parts and everything after a separator", () => {
+        assert.equal(getBaseString("hello (remix) - radio edit"), "hello");
+        assert.equal(getBaseString("Song: Part II"), "Song");
+    });
+
+    test("removes trailing featured artists", () => {
+        assert.equal(getBaseString("song title feat someone"), "song title");
+    });
+
+    test("keeps the input when stripping would leave fewer than three characters", () => {
+        assert.equal(getBaseString("up (feat. someone)"), "up (feat. someone)");
+        assert.equal(getBaseString("ab - c"), "ab - c");
+        assert.equal(getBaseString("(intro)"), "(intro)");
+    });
+});
+
+describe("extractSongName", () => {
+    afterEach(() => {
+        vocabularyStorage.languagePacks = [];
+    });
+
+    test("removes bracketed video and quality markers", () => {
+        assert.equal(extractSongName("Blinding Lights (Official Video)"), "Blinding Lights");
+        assert.equal(extractSongName("Blinding Lights [HD]"), "Blinding Lights");
+        assert.equal(extractSongName("Song (Lyric Video)"), "Song");
+    });
+
+    test("removes unbracketed trailing suffixes", () => {
+        assert.equal(extractSongName("Shape of You Official Music Video"), "Shape of You");
+    });
+
+    test("keeps version markers, which must still match", () => {
+        assert.equal(extractSongName("Numb (Live)"), "Numb (Live)");
+    });
+
+    test("removes featured artists and dangling separators", () => {
+        assert.equal(extractSongName("Stay feat. Justin Bieber"), "Stay");
+        assert.equal(extractSongName("Title -"), "Title");
+    });
+
+    test("only removes localized markers when their language pack is enabled", () => {
+        assert.equal(extractSongName("Evidências (Clipe Oficial)"), "Evidências (Clipe Oficial)");
+        vocabularyStorage.languagePacks = ["pt"];
+        assert.equal(extractSongName("Evidências (Clipe Oficial)"), "Evidências");
+    });
+
+    test("only removes whole pack words, not parts of other words", () => {
+        vocabularyStorage.languagePacks = ["fr", "ja"];
+        assert.equal(extractSongName("Total Eclipse (Total Eclipse)"), "Total Eclipse (Total Eclipse)");
+        assert.equal(extractSongName("Song (Clip Officiel)"), "Song");
+    });
+});
+
+describe("hasStrictBoundary", () => {
+    test("accepts an exact title", () => {
+        assert.equal(hasStrictBoundary("blinding lights", "blinding lights"), true);
+    });
+
+    test("accepts video and quality suffixes, bracketed or not", () => {
+        assert.equal(hasStrictBoundary("blinding lights official video", "blinding lights"), true);
+        assert.equal(hasStrictBoundary("blinding lights (official video)", "blinding lights"), true);
+        assert.equal(hasStrictBoundary("blinding lights - hd", "blinding lights"), true);
+    });
+
+    test("rejects bracketed content that is not a video marker", () => {
+        assert.equal(hasStrictBoundary("blinding lights (live)", "blinding lights"), false);
+    });
+
+    test("rejects long trailing text but tolerates a short tail", () => {
+        assert.equal(hasStrictBoundary("blinding lights part 2 the sequel", "blinding lights"), false);
+        assert.equal(hasStrictBoundary("blinding lights pt 2", "blinding lights"), true);
+    });
+
+    test("rejects titles that don't contain the original", () => {
+        assert.equal(hasStrictBoundary("lights", "blinding lights"), false);
+    });
+});
+
+describe("scoreTitleMatch", () => {
+    afterEach(() => {
+        vocabularyStorage.languagePacks = [];
+    });
+
+    test("names the keyword that knocked a candidate out", () => {
+        assert.deepEqual(scoreTitleMatch("blinding lights", "Blinding Lights (Lyrics)"), { rule: "rejected-word", score: 0, detail: "lyrics" });
+        assert.deepEqual(scoreTitleMatch("blinding lights", "Blinding Lights (Remix)"), { rule: "version-mismatch", score: 0, detail: "remix" });
+    });
+
+    test("reports titles of a different song or with extra words", () => {
+        assert.equal(scoreTitleMatch("blinding lights", "Save Your Tears").rule, "base-mismatch");
+        assert.equal(scoreTitleMatch("blinding lights", "Blinding Lights part 2 the sequel").rule, "strict-boundary");
+    });
+
+    test("matches pack words as whole words", () => {
+        vocabularyStorage.languagePacks = ["es"];
+        assert.equal(scoreTitleMatch("paletra", "Paletra").rule, "exact");
+        assert.equal(scoreTitleMatch("paletra", "Paletra (Letra)").rule, "rejected-word");
+    });
+
+    test("scores video markers above an exact title", () => {
+        assert.deepEqual(scoreTitleMatch("blinding lights", "Blinding Lights (Official Video)"), { rule: "official", score: 1000, detail: "official video" });
+        assert.deepEqual(scoreTitleMatch("blinding lights", "Blinding Lights"), { rule: "exact", score: 500 });
+    });
+});
+
+describe("scoreArtistOverlap", () => {
+    test("keeps each artist's id with its own name", () => {
+        const reference = buildMatchReference("song", { artists: [{ id: 1, name: "" }, { id: 2, name: "Guest" }] });
+        // The guest is credited by name under another id, which only counts if their name stayed theirs
+        assert.equal(scoreArtistOverlap(reference, { title: "Song", artists: [{ id: 1, name: "Main" }, { id: 3, name: "Guest" }] }), 1);
+        assert.equal(scoreArtistOverlap(reference, { title: "Song", artists: [{ id: 3, name: "Guest" }] }), 0.5);
+    });
+});
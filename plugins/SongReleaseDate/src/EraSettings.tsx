@@ -0,0 +1,87 @@
+import React from "react";
+import { LunaButtonSetting, LunaSelectSetting, LunaSelectItem } from "@luna/ui";
+import { getEraLog, clearEraLog } from "./eraLog";
+import { EraCount, countByDecade, countByYear, getTopDecadeByMonth, toCsv } from "./eraStats";
+
+const MONTHS_SHOWN = 12;
+
+type ExportFormat = "CSV" | "JSON";
+
+const Histogram = ({ counts, formatEra }: { counts: EraCount[]; formatEra: (era: number) => string }) => {
+    const max = Math.max(1, ...counts.map(c => c.plays));
+    return (
+        <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto", gap: "4px 8px", alignItems: "center", fontSize: "0.8rem", padding: "8px 0" }}>
+            {counts.map(({ era, plays }) => (
+                <React.Fragment key={era}>
+                    <span>{formatEra(era)}</span>
+                    <div style={{ height: 8, width: `${(plays / max) * 100}%`, borderRadius: 4, background: "var(--wave-color-solid-accent-fill, #1ed760)" }} />
+                    <span style={{ opacity: 0.7 }}>{plays}</span>
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+export const EraSettings = () => {
+    const [entries, setEntries] = React.useState(getEraLog);
+    const [groupBy, setGroupBy] = React.useState<"decade" | "year">("decade");
+    // Each export shows how it went under its own button
+    const [status, setStatus] = React.useState<Partial<Record<ExportFormat, string>>>({});
+
+    const copy = (text: string, format: ExportFormat) =>
+        navigator.clipboard.writeText(text)
+            .then(() => setStatus({ [format]: `Copied ${entries.length} plays as ${format}` }))
+            .catch(() => setStatus({ [format]: "Copying to the clipboard failed" }));
+
+    const counts = groupBy === "decade" ? countByDecade(entries) : countByYear(entries);
+    const months = getTopDecadeByMonth(entries).slice(0, MONTHS_SHOWN);
+
+    return (
+        <>
+            <LunaSelectSetting
+                title="Listening by era"
+                desc={entries.length > 0 ? `${entries.length} logged plays` : "Nothing logged yet. Turn on listening history to start"}
+                value={groupBy}
+                onChange={(e: React.ChangeEvent<{ value: unknown }>) => setGroupBy(e.target.value as typeof groupBy)}
+            >
+                <LunaSelectItem value="decade">By decade</LunaSelectItem>
+                <LunaSelectItem value="year">By year</LunaSelectItem>
+            </LunaSelectSetting>
+            {entries.length > 0 && <Histogram counts={counts} formatEra={era => (groupBy === "decade" ? `${era}s` : String(era))} />}
+            {months.length > 0 && (
+                <div style={{ fontSize: "0.8rem", padding: "0 0 8px" }}>
+                    {months.map(({ month, decade, plays }) => (
+                        <div key={month}>
+                            {month}: mostly the {decade}s ({plays} plays)
+                        </div>
+                    ))}
+                </div>
+            )}
+            <LunaButtonSetting
+                title="Export as CSV"
+                desc={status.CSV || "Copy the raw listening log to the clipboard"}
+                onClick={() => copy(toCsv(entries), "CSV")}
+            >
+                Copy
+            </LunaButtonSetting>
+            <LunaButtonSetting
+                title="Export as JSON"
+                desc={status.JSON || "Copy the raw listening log to the clipboard"}
+                onClick={() => copy(JSON.stringify(entries, null, 2), "JSON")}
+            >
+                Copy
+            </LunaButtonSetting>
+            <LunaButtonSetting
+                title="Wipe listening history"
+                desc="Permanently delete every logged play"
+                onClick={() => {
+                    clearEraLog();
+                    setEntries([]);
+                    setStatus({});
+                }}
+            >
+                Wipe
+            </LunaButtonSetting>
+        </>
+    );
+};
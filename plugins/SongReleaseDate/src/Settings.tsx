@@ -1,21 +1,82 @@
 import React from "react";
 import { ReactiveStore } from "@luna/core";
-import { LunaSettings, LunaTextSetting, LunaSelectSetting, LunaSelectItem } from "@luna/ui";
+import { LunaSettings, LunaTextSetting, LunaSelectSetting, LunaSelectItem, LunaSwitchSetting, LunaNumberSetting, LunaButtonSetting } from "@luna/ui";
+import { formatDate, getInvalidTokens, FORMAT_HELP } from "./dateFormat";
+import { renderTemplate, getUnknownFields, TEMPLATE_HELP } from "./template";
+import { sortQueue, filterQueueByYear } from "./queueCommands";
+import { EraSettings } from "./EraSettings";
+import { clearCachedDates, getCachedDatesCount } from "./releaseDates";
+
+const PREVIEW_DATE = "2011-03-05";
+
+const describeFormat = (format: string) => {
+    const invalid = getInvalidTokens(format);
+    if (invalid.length > 0) return `Unknown tokens: ${invalid.join(", ")} — wrap literal text in [brackets]. ${FORMAT_HELP}`;
+    return `Preview: ${formatDate(PREVIEW_DATE, format) || "—"}. ${FORMAT_HELP}`;
+};
+
+const describeTemplate = (template: string) => {
+    const unknown = getUnknownFields(template);
+    if (unknown.length > 0) return `Unknown placeholders: ${unknown.map(name => `{${name}}`).join(", ")}. ${TEMPLATE_HELP}`;
+    const preview = renderTemplate(template || "{date}", {
+        date: "05-03-2011",
+        album: "05-03-2011",
+        stream: "05-03-2011",
+        original: "05-03-2011",
+        relative: "13 years ago",
+        year: "2011",
+        albumType: "Album",
+        albumTitle: "Example Album",
+        label: "Example Records",
+    });
+    return `Preview: ${preview || "—"}. ${TEMPLATE_HELP}`;
+};
 
 export const storage = await ReactiveStore.getPluginStorage("SongReleaseDate", {
     dateFormat: "DD-MM-YYYY",
     position: "after-title" as "after-title" | "below-title" | "below-artist",
+    dateSource: "album" as "album" | "stream" | "original" | "both",
+    showInLists: false,
+    prefetchRadius: 10,
+    labelTemplate: "{date}",
+    color: "",
+    fontScale: 100,
+    opacity: 100,
+    icon: "none" as "none" | "calendar" | "disc" | "clock",
+    customCss: "",
+    showNewBadge: true,
+    newReleaseDays: 14,
+    showAnniversary: true,
+    filterFromYear: 1990,
+    filterToYear: 1999,
+    logListening: false,
 });
 
 export const Settings = () => {
     const [dateFormat, setDateFormat] = React.useState<string>(storage.dateFormat);
     const [position, setPosition] = React.useState<string>(storage.position);
+    const [dateSource, setDateSource] = React.useState<string>(storage.dateSource);
+    const [showInLists, setShowInLists] = React.useState<boolean>(storage.showInLists);
+    const [prefetchRadius, setPrefetchRadius] = React.useState<number>(storage.prefetchRadius);
+    const [labelTemplate, setLabelTemplate] = React.useState<string>(storage.labelTemplate);
+    const [color, setColor] = React.useState<string>(storage.color);
+    const [fontScale, setFontScale] = React.useState<number>(storage.fontScale);
+    const [opacity, setOpacity] = React.useState<number>(storage.opacity);
+    const [icon, setIcon] = React.useState<string>(storage.icon);
+    const [customCss, setCustomCss] = React.useState<string>(storage.customCss);
+    const [showNewBadge, setShowNewBadge] = React.useState<boolean>(storage.showNewBadge);
+    const [newReleaseDays, setNewReleaseDays] = React.useState<number>(storage.newReleaseDays);
+    const [showAnniversary, setShowAnniversary] = React.useState<boolean>(storage.showAnniversary);
+    const [filterFromYear, setFilterFromYear] = React.useState<number>(storage.filterFromYear);
+    const [filterToYear, setFilterToYear] = React.useState<number>(storage.filterToYear);
+    const [logListening, setLogListening] = React.useState<boolean>(storage.logListening);
+    const [cachedDates, setCachedDates] = React.useState<number>(getCachedDatesCount);
 
     return (
         <LunaSettings>
             <LunaTextSetting
                 title="Date Format"
-                desc="Tokens: YYYY, MM, DD, M, D — e.g. DD/MM/YYYY, YYYY-MM-DD, MM-YYYY"
+                desc={describeFormat(dateFormat)}
                 value={dateFormat}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                     setDateFormat((storage.dateFormat = e.target.value));
@@ -31,6 +92,157 @@ export const Settings = () => {
                 <LunaSelectItem value="below-artist">Below artist</LunaSelectItem>
                 <LunaSelectItem value="below-title">Below title</LunaSelectItem>
             </LunaSelectSetting>
+            <LunaSelectSetting
+                title="Date Source"
+                desc="Reissues and compilations often carry a later date than the song's first release"
+                value={dateSource}
+                onChange={(e: React.ChangeEvent<{ value: unknown }>) => setDateSource((storage.dateSource = e.target.value as typeof storage.dateSource))}
+            >
+                <LunaSelectItem value="album">Album release</LunaSelectItem>
+                <LunaSelectItem value="stream">Available on TIDAL since</LunaSelectItem>
+                <LunaSelectItem value="original">Original release</LunaSelectItem>
+                <LunaSelectItem value="both">Album release with original year</LunaSelectItem>
+            </LunaSelectSetting>
+            <LunaSwitchSetting
+                title="Show in track lists"
+                desc="Also show release dates in playlist, album, mix and search result rows"
+                checked={showInLists}
+                onChange={(_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => setShowInLists((storage.showInLists = checked))}
+            />
+            <LunaNumberSetting
+                title="Prefetch radius"
+                desc="How many queue items before and after the playing one to look up in advance"
+                min={0}
+                max={50}
+                value={prefetchRadius}
+                onNumber={(num: number) => setPrefetchRadius((storage.prefetchRadius = num))}
+            />
+            <LunaButtonSetting
+                title="Clear cached dates"
+                desc={`Release dates of ${cachedDates} tracks and videos are remembered for 30 days`}
+                onClick={() => {
+                    clearCachedDates();
+                    setCachedDates(getCachedDatesCount());
+                }}
+            >
+                Clear
+            </LunaButtonSetting>
+            <LunaTextSetting
+                title="Label Template"
+                desc={describeTemplate(labelTemplate)}
+                value={labelTemplate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabelTemplate((storage.labelTemplate = e.target.value))}
+            />
+            <LunaTextSetting
+                title="Color"
+                desc="Any CSS color, e.g. #1ed760 or rgba(255, 255, 255, 0.6). Leave empty to follow the theme"
+                value={color}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setColor((storage.color = e.target.value))}
+            />
+            <LunaNumberSetting
+                title="Size"
+                desc="Text size in percent of the default"
+                min={50}
+                max={200}
+                value={fontScale}
+                onNumber={(num: number) => setFontScale((storage.fontScale = num))}
+            />
+            <LunaNumberSetting
+                title="Opacity"
+                desc="Label opacity in percent"
+                min={10}
+                max={100}
+                value={opacity}
+                onNumber={(num: number) => setOpacity((storage.opacity = num))}
+            />
+            <LunaSelectSetting
+                title="Icon"
+                desc="Icon shown in front of the label"
+                value={icon}
+                onChange={(e: React.ChangeEvent<{ value: unknown }>) => setIcon((storage.icon = e.target.value as typeof storage.icon))}
+            >
+                <LunaSelectItem value="none">None</LunaSelectItem>
+                <LunaSelectItem value="calendar">Calendar</LunaSelectItem>
+                <LunaSelectItem value="disc">Disc</LunaSelectItem>
+                <LunaSelectItem value="clock">Clock</LunaSelectItem>
+            </LunaSelectSetting>
+            <LunaTextSetting
+                title="Custom CSS"
+                desc="Extra CSS added to the page. Target .luna-release-date for the player label and .luna-release-date-row for track lists"
+                value={customCss}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomCss((storage.customCss = e.target.value))}
+            />
+            <LunaSwitchSetting
+                title="New release badge"
+                desc="Show a NEW badge next to tracks released recently"
+                checked={showNewBadge}
+                onChange={(_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => setShowNewBadge((storage.showNewBadge = checked))}
+            />
+            <LunaNumberSetting
+                title="New release window"
+                desc="How many days after its release a track counts as new"
+                min={1}
+                max={365}
+                value={newReleaseDays}
+                onNumber={(num: number) => setNewReleaseDays((storage.newReleaseDays = num))}
+            />
+            <LunaSwitchSetting
+                title="Release anniversaries"
+                desc="Mark tracks released on this day in an earlier year"
+                checked={showAnniversary}
+                onChange={(_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => setShowAnniversary((storage.showAnniversary = checked))}
+            />
+            <LunaButtonSetting
+                title="Sort queue oldest first"
+                desc="Reorder the tracks after the playing one by release date. Tracks without a date go last"
+                onClick={() => sortQueue("ascending")}
+            >
+                Sort
+            </LunaButtonSetting>
+            <LunaButtonSetting
+                title="Sort queue newest first"
+                desc="Reorder the tracks after the playing one by release date, newest first"
+                onClick={() => sortQueue("descending")}
+            >
+                Sort
+            </LunaButtonSetting>
+            <LunaButtonSetting
+                title="Group queue by year"
+                desc="Bring tracks from the same year together, oldest year first, keeping their order within a year"
+                onClick={() => sortQueue("year")}
+            >
+                Group
+            </LunaButtonSetting>
+            <LunaNumberSetting
+                title="Filter from year"
+                desc="First year kept by the queue filter"
+                min={1900}
+                max={2100}
+                value={filterFromYear}
+                onNumber={(num: number) => setFilterFromYear((storage.filterFromYear = num))}
+            />
+            <LunaNumberSetting
+                title="Filter to year"
+                desc="Last year kept by the queue filter. Use e.g. 1990 to 1999 for a decade"
+                min={1900}
+                max={2100}
+                value={filterToYear}
+                onNumber={(num: number) => setFilterToYear((storage.filterToYear = num))}
+            />
+            <LunaButtonSetting
+                title="Filter queue by year"
+                desc="Remove every track released outside the years above, including tracks without a known date"
+                onClick={() => filterQueueByYear(storage.filterFromYear, storage.filterToYear)}
+            >
+                Filter
+            </LunaButtonSetting>
+            <LunaSwitchSetting
+                title="Listening history"
+                desc="Log the release year of every track you play to the end. The log never leaves this device"
+                checked={logListening}
+                onChange={(_: React.ChangeEvent<HTMLInputElement>, checked: boolean) => setLogListening((storage.logListening = checked))}
+            />
+            <EraSettings />
         </LunaSettings>
     );
 };
\ No newline at end of file
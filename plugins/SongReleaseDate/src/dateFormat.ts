@@ -0,0 +1,108 @@
+export type FormatPart =
+    | { type: "token"; value: string }
+    | { type: "literal"; value: string }
+    | { type: "invalid"; value: string };
+
+// Longest first, so "MMMM" wins over "MM" and "M"
+const TOKENS = ["relative", "YYYY", "MMMM", "dddd", "MMM", "ddd", "Do", "YY", "MM", "DD", "M", "D"];
+
+export const FORMAT_HELP = "YYYY 2011 · YY 11 · MMMM March · MMM Mar · MM 03 · M 3 · DD 05 · D 5 · Do 5th · dddd Saturday · ddd Sat · relative 3 years ago · [text] literal text";
+
+export function parseFormat(format: string): FormatPart[] {
+    const parts: FormatPart[] = [];
+    const pushLiteral = (value: string) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === "literal") last.value += value;
+        else parts.push({ type: "literal", value });
+    };
+
+    for (let i = 0; i < format.length;) {
+        if (format[i] === "[") {
+            const end = format.indexOf("]", i + 1);
+            if (end < 0) {
+                parts.push({ type: "invalid", value: format.slice(i) });
+                break;
+            }
+            pushLiteral(format.slice(i + 1, end));
+            i = end + 1;
+            continue;
+        }
+
+        const token = TOKENS.find(t => format.startsWith(t, i));
+        if (token) {
+            parts.push({ type: "token", value: token });
+            i += token.length;
+            continue;
+        }
+
+        const word = format.slice(i).match(/^\p{L}+/u)?.[0];
+        if (word) {
+            parts.push({ type: "invalid", value: word });
+            i += word.length;
+            continue;
+        }
+
+        pushLiteral(format[i]);
+        i++;
+    }
+    return parts;
+}
+
+export const getInvalidTokens = (format: string) =>
+    parseFormat(format).filter(part => part.type === "invalid").map(part => part.value);
+
+const ENGLISH_ORDINALS: Record<string, string> = { one: "st", two: "nd", few: "rd", other: "th" };
+
+function formatOrdinal(day: number, locale?: string): string {
+    const language = new Intl.Locale(locale ?? navigator.language).language;
+    if (language !== "en") return `${day}.`;
+    return `${day}${ENGLISH_ORDINALS[new Intl.PluralRules("en", { type: "ordinal" }).select(day)]}`;
+}
+
+export function formatRelative(date: Date, now = new Date(), locale?: string): string {
+    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+    const days = Math.floor((now.getTime() - date.getTime()) / 86_400_000);
+    const sign = days < 0 ? 1 : -1;
+    const abs = Math.abs(days);
+
+    if (abs < 7) return rtf.format(sign * abs, "day");
+    if (abs < 30) return rtf.format(sign * Math.floor(abs / 7), "week");
+    if (abs < 365) return rtf.format(sign * Math.floor(abs / 30), "month");
+    return rtf.format(sign * Math.floor(abs / 365), "year");
+}
+
+function formatToken(token: string, date: Date, now: Date, locale?: string): string {
+    const name = (options: Intl.DateTimeFormatOptions) =>
+        new Intl.DateTimeFormat(locale, { ...options, timeZone: "UTC" }).format(date);
+
+    switch (token) {
+        case "YYYY": return date.getUTCFullYear().toString();
+        case "YY": return (date.getUTCFullYear() % 100).toString().padStart(2, "0");
+        case "MMMM": return name({ month: "long" });
+        case "MMM": return name({ month: "short" });
+        case "MM": return (date.getUTCMonth() + 1).toString().padStart(2, "0");
+        case "M": return (date.getUTCMonth() + 1).toString();
+        case "DD": return date.getUTCDate().toString().padStart(2, "0");
+        case "D": return date.getUTCDate().toString();
+        case "Do": return formatOrdinal(date.getUTCDate(), locale);
+        case "dddd": return name({ weekday: "long" });
+        case "ddd": return name({ weekday: "short" });
+        case "relative": return formatRelative(date, now, locale);
+        default: return token;
+    }
+}
+
+/** Formats an ISO date string. Unknown words are kept as typed so mistakes stay visible. */
+export function formatDate(dateStr: string, format: string, now = new Date(), locale?: string): string {
+    if (!dateStr) return "";
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime()) || !dateStr.includes("-")) return dateStr;
+
+    const parts = parseFormat(format);
+    if (!parts.some(part => part.type === "token")) return dateStr;
+
+    return parts
+        .map(part => part.type === "token" ? formatToken(part.value, date, now, locale) : part.value)
+        .join("")
+        .trim();
+}
@@ -0,0 +1,73 @@
+import { ReactiveStore } from "@luna/core";
+import { MediaItem } from "@luna/lib";
+import { Priority } from "@renskursa/request-scheduler";
+import { getCurrentSeekSeconds, getPlaybackControls } from "@renskursa/plugin-common";
+import { storage } from "./Settings";
+import { getCachedDates, getPrimaryDate, loadDates } from "./releaseDates";
+import type { EraLogEntry } from "./eraStats";
+
+const MAX_LOG_ENTRIES = 50000;
+// Every write to the store saves the whole log, so new plays are collected and written together
+const FLUSH_DELAY_MS = 60_000;
+// Share of a track that has to be heard for it to count as played to completion
+const COMPLETION_RATIO = 0.9;
+
+const eraLogStorage = await ReactiveStore.getPluginStorage("SongReleaseDate.eraLog", {
+    entries: [] as EraLogEntry[],
+});
+
+type PlayingTrack = { id: string; duration: number; furthest: number };
+let playing: PlayingTrack | undefined;
+
+let pendingEntries: EraLogEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function flushEraLog() {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (pendingEntries.length === 0) return;
+
+    eraLogStorage.entries = [...eraLogStorage.entries, ...pendingEntries].slice(-MAX_LOG_ENTRIES);
+    pendingEntries = [];
+}
+
+/** The logged plays, including those not written to the store yet. */
+export const getEraLog = (): EraLogEntry[] => [...eraLogStorage.entries, ...pendingEntries];
+
+/** Remembers how far into the playing track playback got; called on an interval while logging is on. */
+export function samplePlayback() {
+    if (!playing) return;
+    const pc = getPlaybackControls();
+    if (String(pc?.playbackContext?.actualProductId) !== playing.id) return;
+    playing.furthest = Math.max(playing.furthest, getCurrentSeekSeconds());
+}
+
+async function logPlay(trackId: string) {
+    const dates = getCachedDates(trackId) ?? await loadDates(trackId, { priority: Priority.NORMAL }).catch(() => undefined);
+    const date = dates && getPrimaryDate(dates, storage.dateSource);
+    const year = date ? new Date(date).getUTCFullYear() : NaN;
+    if (isNaN(year)) return;
+
+    pendingEntries.push({ trackId, playedAt: Date.now(), year });
+    flushTimer ??= setTimeout(flushEraLog, FLUSH_DELAY_MS);
+}
+
+/** Logs the track that just ended if it was heard to the end, then starts following `media`. */
+export function onEraTransition(media: MediaItem) {
+    samplePlayback();
+    const finished = playing;
+    playing = media.contentType === "track"
+        ? { id: String(media.id), duration: Number(media.tidalItem?.duration ?? 0), furthest: 0 }
+        : undefined;
+
+    if (!storage.logListening || !finished?.duration) return;
+    if (finished.furthest < finished.duration * COMPLETION_RATIO) return;
+    logPlay(finished.id).catch(() => {});
+}
+
+export function clearEraLog() {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    pendingEntries = [];
+    eraLogStorage.entries = [];
+}
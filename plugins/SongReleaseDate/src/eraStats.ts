@@ -0,0 +1,43 @@
+export type EraLogEntry = { trackId: string; playedAt: number; year: number };
+export type EraCount = { era: number; plays: number };
+export type MonthlyEra = { month: string; decade: number; plays: number };
+
+export const getDecade = (year: number) => Math.floor(year / 10) * 10;
+
+function countBy(entries: EraLogEntry[], getEra: (entry: EraLogEntry) => number): EraCount[] {
+    const counts = new Map<number, number>();
+    for (const entry of entries) {
+        const era = getEra(entry);
+        counts.set(era, (counts.get(era) ?? 0) + 1);
+    }
+    return [...counts].map(([era, plays]) => ({ era, plays })).sort((a, b) => a.era - b.era);
+}
+
+export const countByYear = (entries: EraLogEntry[]) => countBy(entries, entry => entry.year);
+export const countByDecade = (entries: EraLogEntry[]) => countBy(entries, entry => getDecade(entry.year));
+
+const getMonth = (time: number) => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/** The most played decade for every month with plays, newest month first. Ties go to the older decade. */
+export function getTopDecadeByMonth(entries: EraLogEntry[]): MonthlyEra[] {
+    const months = new Map<string, EraLogEntry[]>();
+    for (const entry of entries) {
+        const month = getMonth(entry.playedAt);
+        const monthEntries = months.get(month);
+        if (monthEntries) monthEntries.push(entry);
+        else months.set(month, [entry]);
+    }
+
+    return [...months]
+        .map(([month, monthEntries]) => {
+            const top = countByDecade(monthEntries).reduce((best, count) => count.plays > best.plays ? count : best);
+            return { month, decade: top.era, plays: top.plays };
+        })
+        .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+export const toCsv = (entries: EraLogEntry[]) =>
+    ["trackId,playedAt,year", ...entries.map(e => `${e.trackId},${new Date(e.playedAt).toISOString()},${e.year}`)].join("\n");
@@ -0,0 +1,33 @@
+export type ReleaseHighlight =
+    | { kind: "new"; days: number }
+    | { kind: "anniversary"; years: number };
+
+export type HighlightOptions = {
+    newBadge: boolean;
+    newDays: number;
+    anniversary: boolean;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Release dates are calendar dates in UTC, "today" is the listener's local date
+export function getReleaseHighlight(dateStr: string | undefined, options: HighlightOptions, now = new Date()): ReleaseHighlight | undefined {
+    const date = new Date(dateStr ?? "");
+    if (isNaN(date.getTime())) return;
+
+    const release = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+    const days = Math.round((today - release) / DAY_MS);
+
+    if (options.newBadge && days >= 0 && days <= options.newDays) return { kind: "new", days };
+
+    const years = now.getFullYear() - date.getUTCFullYear();
+    if (options.anniversary && years > 0 && now.getMonth() === date.getUTCMonth() && now.getDate() === date.getUTCDate()) {
+        return { kind: "anniversary", years };
+    }
+}
+
+export const describeHighlight = (highlight: ReleaseHighlight) =>
+    highlight.kind === "new"
+        ? "NEW"
+        : `Released ${highlight.years} year${highlight.years === 1 ? "" : "s"} ago today`;
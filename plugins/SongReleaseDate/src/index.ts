@@ -1,96 +1,153 @@
 import { LunaUnload } from "@luna/core";
-import { MediaItem, observe, redux } from "@luna/lib";
+import { MediaItem, observe } from "@luna/lib";
 import { storage } from "./Settings";
 import { store as obyStore } from "oby";
+import { Priority } from "@renskursa/request-scheduler";
+import { injectElement } from "@renskursa/plugin-common";
+import { ContentType, ReleaseDates, getCachedDates, loadDates, loadAlbumDates, loadAlbumDetails, isComplete, flushCachedDates } from "./releaseDates";
+import { getQueueNeighbours, getPlayingEntry, QueueEntry } from "./playQueue";
+import { refreshTrackRows, removeTrackRowLabels, disconnectTrackRows, watchRow } from "./trackRows";
+import { attachTooltip, removeTooltip } from "./tooltip";
+import { getLabelText, getLabelStyle, getLabelHighlight, templateNeedsAlbum, applyCustomCss, removeCustomCss, applyHighlightCss, removeHighlightCss } from "./label";
+import { ReleaseHighlight, describeHighlight } from "./highlight";
+import { cancelQueueCommand } from "./queueCommands";
+import { removeProgress } from "./progress";
+import { onEraTransition, samplePlayback, flushEraLog } from "./eraLog";
 
 export { Settings } from "./Settings";
 export const unloads = new Set<LunaUnload>();
 
-const releaseDateCache = new Map<string, string>();
 let currentReleaseDate = "";
-let lastId = "";
+let currentHighlight: ReleaseHighlight | undefined;
+let lastMedia: QueueEntry | undefined;
 let fetchSeq = 0;
+let currentFetch: AbortController | undefined;
+let prefetchController: AbortController | undefined;
 
-const VALID_TOKENS = ["YYYY", "MM", "DD", "M", "D"];
-
-function formatDate(dateStr: string, format: string) {
-    if (!dateStr) return "";
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime()) || !dateStr.includes("-")) return dateStr;
-    if (!VALID_TOKENS.some(t => format.includes(t))) return dateStr;
-
-    return format
-        .replace("YYYY", date.getUTCFullYear().toString())
-        .replace("MM", (date.getUTCMonth() + 1).toString().padStart(2, "0"))
-        .replace("DD", date.getUTCDate().toString().padStart(2, "0"))
-        .replace("M", (date.getUTCMonth() + 1).toString())
-        .replace("D", date.getUTCDate().toString())
-        .replace(/[A-Za-z]+/g, "")
-        .replace(/[^0-9\/\-\.\s]/g, "")
-        .replace(/[\/\-\.\s]{2,}/g, m => m[0])
-        .replace(/^[\/\-\.\s]+|[\/\-\.\s]+$/g, "");
-}
-
-const getSpanStyle = () =>
-    storage.position === "after-title"
-        ? "display: inline-flex; align-items: center; color: var(--text-secondary, #919496); font-size: 0.8rem; font-family: inherit; margin-left: 3px; white-space: nowrap; font-weight: 400; flex-shrink: 0;"
-        : "display: block; color: var(--text-secondary, #919496); font-size: 0.75rem; font-family: inherit; margin: -2px 0;";
-
-const updateNodes = () =>
-    document.querySelectorAll(".luna-release-date").forEach(el => {
-        if (el.textContent !== currentReleaseDate) {
-            el.textContent = currentReleaseDate;
-        }
-    });
+const updateNode = (el: HTMLElement) => {
+    if (el.textContent !== currentReleaseDate) {
+        el.textContent = currentReleaseDate;
+    }
+    if (currentHighlight && currentReleaseDate) {
+        el.dataset.highlight = describeHighlight(currentHighlight);
+        el.dataset.highlightKind = currentHighlight.kind;
+    } else {
+        delete el.dataset.highlight;
+        delete el.dataset.highlightKind;
+    }
+};
+
+const updateNodes = () => document.querySelectorAll<HTMLElement>(".luna-release-date").forEach(updateNode);
+
+const createSpan = () => {
+    const span = document.createElement("span");
+    span.style.cssText = getLabelStyle();
+    updateNode(span);
+    attachTooltip(span, () => lastMedia && getCachedDates(lastMedia.id, lastMedia.type));
+    return span;
+};
+
+const render = (dates: ReleaseDates) => {
+    currentReleaseDate = getLabelText(dates);
+    currentHighlight = getLabelHighlight(dates);
+    updateNodes();
+};
+
+// Album placeholders in the template need the album, which the date lookup does not fetch
+const renderWithAlbum = async (dates: ReleaseDates, seq: number, signal: AbortSignal) => {
+    render(dates);
+    if (!templateNeedsAlbum() || dates.albumDetails) return;
+    await loadAlbumDetails(dates, { priority: Priority.CURRENT, signal }).catch(() => {});
+    if (seq === fetchSeq) render(dates);
+};
 
-const prefetch = (radius = 10) => {
+const prefetch = (radius = storage.prefetchRadius) => {
+    // Lookups for the previous neighbourhood are stale once the track changes
+    prefetchController?.abort();
+    const controller = prefetchController = new AbortController();
+    const options = { priority: Priority.PREFETCH, signal: controller.signal };
     try {
-        const pq = (redux.store.getState() as any).playQueue;
-        if (!pq?.elements || typeof pq.currentIndex !== "number") return;
-
-        for (let i = -radius; i <= radius; i++) {
-            if (i === 0) continue;
-            const el = pq.elements[pq.currentIndex + i];
-            if (!el?.mediaItemId) continue;
-            const id = String(el.mediaItemId);
-            if (releaseDateCache.has(id)) continue;
-            MediaItem.fromId(el.mediaItemId, "track")
-                .then(item => item?.releaseDateStr())
-                .then(date => { if (date) releaseDateCache.set(id, date); })
+        const missing = getQueueNeighbours(radius).filter(({ id, type }) => {
+            const cached = getCachedDates(id, type);
+            return !cached || !isComplete(cached);
+        });
+
+        // Tracks sharing an album are loaded from the album in one go
+        const byAlbum = new Map<number, QueueEntry[]>();
+        for (const entry of missing) {
+            if (entry.type !== "track" || entry.albumId === undefined) continue;
+            const albumEntries = byAlbum.get(entry.albumId);
+            if (albumEntries) albumEntries.push(entry);
+            else byAlbum.set(entry.albumId, [entry]);
+        }
+
+        for (const [albumId, entries] of byAlbum) {
+            if (entries.length < 2) continue;
+            loadAlbumDates(albumId, options)
+                .catch(() => {})
+                .then(() => Promise.all(entries.map(({ id }) => loadDates(id, options))))
                 .catch(() => {});
         }
+
+        for (const { id, type, albumId } of missing) {
+            if (type === "track" && albumId !== undefined && byAlbum.get(albumId)!.length > 1) continue;
+            loadDates(id, options, type).catch(() => {});
+        }
     } catch { }
 };
 
-const applyId = async (id: string, reformat = false) => {
-    const seq = ++fetchSeq;
-
-    if (releaseDateCache.has(id)) {
-        currentReleaseDate = formatDate(releaseDateCache.get(id)!, storage.dateFormat);
-        updateNodes();
-        prefetch();
-        return;
-    }
+const clearLabel = () => {
+    fetchSeq++;
+    currentFetch?.abort();
+    currentReleaseDate = "";
+    currentHighlight = undefined;
+    updateNodes();
+};
 
-    if (!reformat) {
+const applyId = async (id: string, type: ContentType, reformat = false) => {
+    const seq = ++fetchSeq;
+    currentFetch?.abort();
+    const controller = currentFetch = new AbortController();
+
+    const cached = getCachedDates(id, type);
+    if (cached) {
+        render(cached);
+        if (isComplete(cached)) {
+            prefetch();
+            renderWithAlbum(cached, seq, controller.signal);
+            return;
+        }
+    } else if (!reformat) {
         currentReleaseDate = "";
+        currentHighlight = undefined;
         updateNodes();
     }
 
-    const item = await MediaItem.fromId(id, "track");
-    if (seq !== fetchSeq) return;
+    const dates = await loadDates(id, { priority: Priority.CURRENT, signal: controller.signal }, type).catch(() => getCachedDates(id, type));
+    if (seq !== fetchSeq || !dates) return;
 
-    const rawDate = (await item?.releaseDateStr()) ?? "";
-    if (seq !== fetchSeq) return;
-
-    if (rawDate) releaseDateCache.set(id, rawDate);
-    currentReleaseDate = formatDate(rawDate, storage.dateFormat);
-    updateNodes();
     prefetch();
+    renderWithAlbum(dates, seq, controller.signal);
+};
+
+const getMediaFromContainer = (container: Element): QueueEntry | undefined => {
+    const href = container.querySelector('a[href^="/track/"], a[href^="/video/"]')?.getAttribute("href");
+    const match = href?.match(/^\/(track|video)\/(\d+)/);
+    if (match) return { id: match[2], type: match[1] as ContentType };
+    // Titles without a link, e.g. some videos, fall back to the player state
+    return getPlayingEntry();
 };
 
-const getIdFromContainer = (container: Element) =>
-    container.querySelector('a[href^="/track/"]')?.getAttribute("href")?.split("/").pop();
+const isSameMedia = (a?: QueueEntry, b?: QueueEntry) => a?.id === b?.id && a?.type === b?.type;
+
+const updateMedia = (container: Element) => {
+    const media = getMediaFromContainer(container);
+    if (isSameMedia(media, lastMedia)) return;
+
+    lastMedia = media;
+    if (media) applyId(media.id, media.type);
+    else clearLabel();
+};
 
 const getAnchor = (container: Element) => {
     switch (storage.position) {
@@ -106,55 +163,64 @@ const getAnchor = (container: Element) => {
     }
 };
 
-unloads.add(obyStore.on(storage, () => {
-    if (!lastId) return;
-    document.querySelectorAll(".luna-release-date").forEach(el => el.remove());
-
-    document.querySelectorAll('[data-test="footer-track-title"]').forEach(container => {
-        if (container.parentElement?.querySelector(".luna-release-date")) return;
-        if (container.querySelector(".luna-release-date")) return;
-
-        const span = document.createElement("span");
-        span.className = "luna-release-date";
-        span.style.cssText = getSpanStyle();
-        span.textContent = currentReleaseDate;
-
-        const { el, pos } = getAnchor(container);
-        el.insertAdjacentElement(pos, span);
-    });
-
-    applyId(lastId, true);
-}));
-
-document.querySelectorAll(".luna-release-date").forEach(el => el.remove());
-unloads.add(() => document.querySelectorAll(".luna-release-date").forEach(el => el.remove()));
+const watchedTitles = new WeakSet<Element>();
 
-prefetch(20);
-
-observe(unloads, '[data-test="footer-track-title"]', (container) => {
-    if (container.parentElement?.querySelector(".luna-release-date")) return;
-    if (container.querySelector(".luna-release-date")) return;
-
-    const span = document.createElement("span");
-    span.className = "luna-release-date";
-    span.style.cssText = getSpanStyle();
-    span.textContent = currentReleaseDate;
-
-    const { el, pos } = getAnchor(container);
-    el.insertAdjacentElement(pos, span);
+// The title is updated in place on every transition, so watch it rather than waiting for a new one
+const watchTitle = (container: Element) => {
+    if (watchedTitles.has(container)) return;
+    watchedTitles.add(container);
 
+    const isLabelMutation = (m: MutationRecord) =>
+        (m.target instanceof Element ? m.target : m.target.parentElement)?.closest(".luna-release-date");
     const titleObserver = new MutationObserver((mutations) => {
-        if (mutations.every(m => m.target === span || m.target.parentNode === span)) return;
-
-        const id = getIdFromContainer(container);
-        if (id && id !== lastId) {
-            lastId = id;
-            applyId(id);
-        }
+        if (mutations.every(isLabelMutation)) return;
+        updateMedia(container);
     });
     titleObserver.observe(container, { characterData: true, childList: true, subtree: true });
     unloads.add(() => titleObserver.disconnect());
+};
+
+const footerLabel = injectElement(unloads, {
+    anchor: '[data-test="footer-track-title"]',
+    className: "luna-release-date",
+    getPlacement: getAnchor,
+    create: (container) => {
+        watchTitle(container);
+        updateMedia(container);
+        return createSpan();
+    },
+});
+
+unloads.add(obyStore.on(storage, () => {
+    applyCustomCss();
+    refreshTrackRows();
+    footerLabel.remount();
+    if (lastMedia) applyId(lastMedia.id, lastMedia.type, true);
+}));
 
-    const id = getIdFromContainer(container);
-    if (id) { lastId = id; applyId(id); }
-});
\ No newline at end of file
+unloads.add(() => {
+    currentFetch?.abort();
+    prefetchController?.abort();
+    disconnectTrackRows();
+    removeTrackRowLabels();
+    removeTooltip();
+    removeCustomCss();
+    removeHighlightCss();
+    cancelQueueCommand();
+    removeProgress();
+    flushCachedDates();
+});
+
+applyCustomCss();
+applyHighlightCss();
+
+prefetch(storage.prefetchRadius * 2);
+
+observe(unloads, '[data-test="tracklist-row"]', watchRow);
+
+MediaItem.onMediaTransition(unloads, onEraTransition);
+const eraSampler = setInterval(() => storage.logListening && samplePlayback(), 2000);
+unloads.add(() => {
+    clearInterval(eraSampler);
+    flushEraLog();
+});
@@ -0,0 +1,107 @@
+import { storage } from "./Settings";
+import { ReleaseDates, getDisplayDate, getPrimaryDate } from "./releaseDates";
+import { formatDate, formatRelative } from "./dateFormat";
+import { ALBUM_FIELDS, getTemplateFields, renderTemplate } from "./template";
+import { ReleaseHighlight, getReleaseHighlight } from "./highlight";
+
+const CUSTOM_CSS_ID = "luna-release-date-custom-css";
+const HIGHLIGHT_CSS_ID = "luna-release-date-highlight-css";
+
+// Pseudo-elements can't be styled inline, so badges come from a shared stylesheet
+const HIGHLIGHT_CSS = `
+.luna-release-date[data-highlight]::after {
+    content: attr(data-highlight);
+    margin-left: 6px;
+    padding: 0 5px;
+    border-radius: 4px;
+    font-size: 0.85em;
+    font-weight: 600;
+    white-space: nowrap;
+}
+.luna-release-date[data-highlight-kind="new"]::after {
+    background: var(--wave-color-solid-accent-fill, #1ed760);
+    color: #000;
+}
+.luna-release-date[data-highlight-kind="anniversary"]::after {
+    border: 1px solid currentColor;
+}
+`;
+
+export const LABEL_ICONS: Record<typeof storage.icon, string> = {
+    none: "",
+    calendar: "\u{1F4C5}",
+    disc: "\u{1F4BF}",
+    clock: "\u{1F552}",
+};
+
+export const templateNeedsAlbum = () =>
+    getTemplateFields(storage.labelTemplate).some(field => ALBUM_FIELDS.includes(field));
+
+export function getLabelText(dates: ReleaseDates): string {
+    const date = getDisplayDate(dates, storage.dateSource, storage.dateFormat);
+    if (!date) return "";
+
+    const primary = getPrimaryDate(dates, storage.dateSource);
+    const format = (dateStr?: string) => dateStr ? formatDate(dateStr, storage.dateFormat) : undefined;
+    const text = renderTemplate(storage.labelTemplate || "{date}", {
+        date,
+        album: format(dates.album),
+        stream: format(dates.stream),
+        original: format(dates.original),
+        relative: primary ? formatRelative(new Date(primary)) : undefined,
+        year: primary ? String(new Date(primary).getUTCFullYear()) : undefined,
+        albumType: dates.albumDetails?.type,
+        albumTitle: dates.albumDetails?.title,
+        label: dates.albumDetails?.label,
+    });
+
+    const icon = LABEL_ICONS[storage.icon];
+    return icon && text ? `${icon} ${text}` : text;
+}
+
+export const getLabelHighlight = (dates: ReleaseDates): ReleaseHighlight | undefined =>
+    getReleaseHighlight(getPrimaryDate(dates, storage.dateSource), {
+        newBadge: storage.showNewBadge,
+        newDays: storage.newReleaseDays,
+        anniversary: storage.showAnniversary,
+    });
+
+export function getLabelStyle(): string {
+    const afterTitle = storage.position === "after-title";
+    const layout = afterTitle
+        ? "display: inline-flex; align-items: center; margin-left: 3px; white-space: nowrap; font-weight: 400; flex-shrink: 0;"
+        : "display: block; margin: -2px 0;";
+    const color = storage.color.trim() || "var(--text-secondary, #919496)";
+    const fontSize = `calc(${afterTitle ? 0.8 : 0.75}rem * ${storage.fontScale / 100})`;
+    return `${layout} color: ${color}; font-size: ${fontSize}; font-family: inherit; opacity: ${storage.opacity / 100};`;
+}
+
+export function applyCustomCss() {
+    let style = document.getElementById(CUSTOM_CSS_ID);
+    if (!storage.customCss.trim()) {
+        style?.remove();
+        return;
+    }
+    if (!style) {
+        style = document.createElement("style");
+        style.id = CUSTOM_CSS_ID;
+        document.head.appendChild(style);
+    }
+    if (style.textContent !== storage.customCss) style.textContent = storage.customCss;
+}
+
+export function removeCustomCss() {
+    document.getElementById(CUSTOM_CSS_ID)?.remove();
+}
+
+export function applyHighlightCss() {
+    if (document.getElementById(HIGHLIGHT_CSS_ID)) return;
+    const style = document.createElement("style");
+    style.id = HIGHLIGHT_CSS_ID;
+    style.textContent = HIGHLIGHT_CSS;
+    document.head.appendChild(style);
+}
+
+export function removeHighlightCss() {
+    document.getElementById(HIGHLIGHT_CSS_ID)?.remove();
+}
@@ -0,0 +1,30 @@
+import { getPlaybackControls, getPlayQueue, getStoreMediaItem } from "@renskursa/plugin-common";
+import type { ContentType } from "./releaseDates";
+
+export type QueueEntry = { id: string; type: ContentType; albumId?: number };
+
+export function getQueueEntry(mediaItemId: string | number): QueueEntry {
+    const media = getStoreMediaItem(mediaItemId);
+    const type: ContentType = media?.type === "video" ? "video" : "track";
+    return { id: String(mediaItemId), type, albumId: media?.item?.album?.id };
+}
+
+/** The item the player reports as playing, used when the footer has no link to read it from. */
+export function getPlayingEntry(): QueueEntry | undefined {
+    const id = getPlaybackControls()?.playbackContext?.actualProductId;
+    return id ? getQueueEntry(id) : undefined;
+}
+
+/** The queue entries within `radius` of the current one, excluding it. */
+export function getQueueNeighbours(radius: number): QueueEntry[] {
+    const { elements, currentIndex } = getPlayQueue();
+    if (currentIndex < 0) return [];
+
+    const entries: QueueEntry[] = [];
+    for (let i = -radius; i <= radius; i++) {
+        const el = elements[currentIndex + i];
+        if (i === 0 || !el?.mediaItemId) continue;
+        entries.push(getQueueEntry(el.mediaItemId));
+    }
+    return entries;
+}
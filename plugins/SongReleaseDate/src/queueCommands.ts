@@ -0,0 +1,95 @@
+import { PlayState, redux } from "@luna/lib";
+import { Priority } from "@renskursa/request-scheduler";
+import { PlayQueueElement, getPlayQueue } from "@renskursa/plugin-common";
+import { storage } from "./Settings";
+import { ReleaseDates, getCachedDates, getPrimaryDate, isComplete, loadDates } from "./releaseDates";
+import { getQueueEntry } from "./playQueue";
+import { QueueOrder, orderByRelease, isInYearRange } from "./queueOrder";
+import { showProgress } from "./progress";
+
+type DatedElement = PlayQueueElement & { time: number };
+
+let activeCommand: AbortController | undefined;
+
+export function cancelQueueCommand() {
+    activeCommand?.abort();
+    activeCommand = undefined;
+}
+
+/** The release timestamp of `el` from `dates`, or from the cache when they aren't given; NaN when unknown. */
+function getReleaseTime(el: PlayQueueElement, dates?: ReleaseDates): number {
+    if (!dates) {
+        const { id, type } = getQueueEntry(el.mediaItemId);
+        dates = getCachedDates(id, type);
+    }
+    const date = dates && getPrimaryDate(dates, storage.dateSource);
+    return date ? new Date(date).getTime() : NaN;
+}
+
+async function loadQueueDates(elements: PlayQueueElement[], label: string): Promise<DatedElement[] | undefined> {
+    cancelQueueCommand();
+    const controller = activeCommand = new AbortController();
+    const progress = showProgress(label, () => controller.abort());
+    const options = { priority: Priority.NORMAL, signal: controller.signal };
+
+    let done = 0;
+    progress.update(done, elements.length);
+    try {
+        const dated = await Promise.all(elements.map(async el => {
+            const { id, type } = getQueueEntry(el.mediaItemId);
+            const cached = getCachedDates(id, type);
+            const dates = cached && isComplete(cached) ? cached : await loadDates(id, options, type).catch(() => cached);
+            progress.update(++done, elements.length);
+
+            return { ...el, time: getReleaseTime(el, dates) };
+        }));
+        return controller.signal.aborted ? undefined : dated;
+    } finally {
+        progress.close();
+        if (activeCommand === controller) activeCommand = undefined;
+    }
+}
+
+/** Reorders everything after the playing item; unknown dates go last. */
+export async function sortQueue(order: QueueOrder) {
+    const { elements, currentIndex } = getPlayQueue();
+    if (elements.length - currentIndex - 1 < 2) return;
+
+    const dated = await loadQueueDates(elements.slice(currentIndex + 1), order === "year" ? "Grouping queue by year" : "Sorting queue by release date");
+    if (!dated) return;
+
+    // The queue may have changed while the dates loaded, so sort what is upcoming now
+    const times = new Map(dated.map(el => [el.uid, el.time]));
+    const queue = getPlayQueue();
+    const upcoming = queue.elements.slice(queue.currentIndex + 1).map(el => ({ ...el, time: times.get(el.uid) ?? getReleaseTime(el) }));
+    const sorted = orderByRelease(upcoming, order);
+    if (sorted.every((el, index) => el.uid === upcoming[index].uid)) return;
+
+    // The queue can only insert after the playing item, so the sorted items go in there and the old ones come out
+    PlayState.playNext(sorted.map(el => Number(el.mediaItemId)));
+    for (const el of upcoming) {
+        await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid: el.uid });
+    }
+}
+
+/** Removes every item released outside `from`-`to`, including items without a known date. */
+export async function filterQueueByYear(from: number, to: number) {
+    const { elements, currentIndex } = getPlayQueue();
+    if (elements.length === 0) return;
+
+    const dated = await loadQueueDates(elements, "Filtering queue by release year");
+    if (!dated) return;
+
+    const keptIndexes = dated.flatMap((el, index) => isInYearRange(el.time, from, to) ? [index] : []);
+    // Leave the queue alone rather than emptying it
+    if (keptIndexes.length === 0) return;
+
+    // The playing item can't be removed, so playback moves on to the next kept item first
+    if (currentIndex >= 0 && !keptIndexes.includes(currentIndex)) {
+        await redux.actions["playQueue/MOVE_TO"](keptIndexes.find(index => index > currentIndex) ?? keptIndexes[0]);
+    }
+    for (const [index, el] of dated.entries()) {
+        if (keptIndexes.includes(index)) continue;
+        await redux.actions["playQueue/REMOVE_ELEMENT"]({ uid: el.uid });
+    }
+}
@@ -0,0 +1,24 @@
+export type QueueOrder = "ascending" | "descending" | "year";
+
+/** `time` is the release timestamp, NaN when the date is unknown. */
+export type DatedItem = { time: number };
+
+const getYear = (time: number) => new Date(time).getUTCFullYear();
+
+// Unknown dates always go last; sort is stable, so ties keep their queue order
+export function orderByRelease<T extends DatedItem>(items: T[], order: QueueOrder): T[] {
+    const key = order === "year" ? (item: T) => getYear(item.time) : (item: T) => item.time;
+    const direction = order === "descending" ? -1 : 1;
+
+    return [...items].sort((a, b) => {
+        const ka = key(a), kb = key(b);
+        if (isNaN(ka) || isNaN(kb)) return Number(isNaN(ka)) - Number(isNaN(kb));
+        return (ka - kb) * direction;
+    });
+}
+
+export function isInYearRange(time: number, from: number, to: number): boolean {
+    if (isNaN(time)) return false;
+    const year = getYear(time);
+    return year >= Math.min(from, to) && year <= Math.max(from, to);
+}
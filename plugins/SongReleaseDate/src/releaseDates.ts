@@ -0,0 +1,203 @@
+import { ReactiveStore } from "@luna/core";
+import { MediaItem, TidalApi } from "@luna/lib";
+import { CacheEntry, PersistentCache } from "@renskursa/plugin-common";
+import { getScheduler, HttpError, ScheduleOptions } from "@renskursa/request-scheduler";
+import { formatDate } from "./dateFormat";
+import { storage } from "./Settings";
+
+export type DateSource = "album" | "stream" | "original" | "both";
+export type ContentType = "track" | "video";
+
+export type TrackDetails = {
+    albumId?: number;
+    isrc?: string;
+    trackNumber?: number;
+    volumeNumber?: number;
+    copyright?: string;
+};
+
+export type AlbumDetails = {
+    title?: string;
+    type?: string;
+    label?: string;
+    copyright?: string;
+    upc?: string;
+};
+
+export type ReleaseDates = {
+    album?: string;
+    stream?: string;
+    original?: string;
+    originalChecked?: boolean;
+    track?: TrackDetails;
+    albumDetails?: AlbumDetails;
+};
+
+const normalize = (s: string) =>
+    s.toLowerCase()
+        .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+        .replace(/[(\[].*?[)\]]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+const getYear = (dateStr?: string) => dateStr ? new Date(dateStr).getUTCFullYear() : NaN;
+
+export const needsOriginal = (source: DateSource) => source === "original" || source === "both";
+
+const MAX_CACHED_DATES = 2000;
+// Stream dates and original releases can change, so look them up again now and then
+const DATES_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const cacheStorage = await ReactiveStore.getPluginStorage("SongReleaseDate.cache", {
+    entries: {} as Record<string, CacheEntry<ReleaseDates>>,
+});
+
+const datesCache = new PersistentCache(cacheStorage.entries, { maxSize: MAX_CACHED_DATES, ttlMs: DATES_TTL_MS });
+
+const getCacheKey = (id: string, type: ContentType) => `${type}:${id}`;
+
+export function getCachedDates(id: string, type: ContentType = "track"): ReleaseDates | undefined {
+    return datesCache.get(getCacheKey(id, type));
+}
+
+/** Stores `dates` and returns the stored entry, which later lookups may extend in place. */
+export function setCachedDates(id: string, type: ContentType, dates: ReleaseDates): ReleaseDates {
+    return datesCache.set(getCacheKey(id, type), dates);
+}
+
+export function clearCachedDates() {
+    datesCache.clear();
+}
+
+export const getCachedDatesCount = () => datesCache.size;
+
+/** Writes recent reads to the store, so the least recently used dates are still known after a restart. */
+export const flushCachedDates = () => datesCache.flush();
+
+const toTrackDetails = (tidalItem: any): TrackDetails => ({
+    albumId: tidalItem?.album?.id,
+    isrc: tidalItem?.isrc,
+    trackNumber: tidalItem?.trackNumber,
+    volumeNumber: tidalItem?.volumeNumber,
+    copyright: tidalItem?.copyright,
+});
+
+export function loadReleaseDates(id: string, type: ContentType, options: ScheduleOptions = {}): Promise<ReleaseDates> {
+    return getScheduler().schedule(async () => {
+        const item = await MediaItem.fromId(id, type);
+        const tidalItem = item?.tidalItem;
+        return {
+            album: (await item?.releaseDateStr()) || tidalItem?.releaseDate || undefined,
+            stream: tidalItem?.streamStartDate || undefined,
+            track: toTrackDetails(tidalItem),
+        };
+    }, options);
+}
+
+const ALBUM_TYPES: Record<string, string> = { ALBUM: "Album", EP: "EP", SINGLE: "Single", COMPILATION: "Compilation" };
+
+async function fetchAlbumJson(path: string, options: ScheduleOptions): Promise<any> {
+    const headers = await TidalApi.getAuthHeaders();
+    const separator = path.includes("?") ? "&" : "?";
+    const res = await getScheduler().fetch(`https://desktop.tidal.com/v1/albums/${path}${separator}${TidalApi.queryArgs()}`, { headers }, options);
+    if (!res.ok) throw new HttpError(res.status);
+    return res.json();
+}
+
+const toAlbumDetails = (album: any): AlbumDetails => ({
+    title: album?.title,
+    type: ALBUM_TYPES[album?.type] ?? album?.type,
+    label: album?.recordLabel?.name ?? album?.label,
+    copyright: album?.copyright,
+    upc: album?.upc,
+});
+
+/** Fetches the album behind `dates` once and keeps it alongside them. */
+export async function loadAlbumDetails(dates: ReleaseDates, options: ScheduleOptions = {}): Promise<AlbumDetails | undefined> {
+    if (dates.albumDetails || !dates.track?.albumId) return dates.albumDetails;
+    return (dates.albumDetails = toAlbumDetails(await fetchAlbumJson(String(dates.track.albumId), options)));
+}
+
+/** Caches the dates of every track on an album from the album and its track list, instead of one lookup per track. */
+export async function loadAlbumDates(albumId: number, options: ScheduleOptions = {}) {
+    const [album, items] = await Promise.all([
+        fetchAlbumJson(String(albumId), options),
+        fetchAlbumJson(`${albumId}/items?limit=100`, options),
+    ]);
+    const albumDetails = toAlbumDetails(album);
+
+    for (const { item, type } of items?.items ?? []) {
+        if (type !== "track" || item?.id === undefined || getCachedDates(String(item.id))) continue;
+        setCachedDates(String(item.id), "track", {
+            album: item.releaseDate ?? album?.releaseDate ?? item.streamStartDate,
+            stream: item.streamStartDate,
+            track: toTrackDetails({ ...item, album: { id: albumId } }),
+            albumDetails,
+        });
+    }
+}
+
+/**
+ * Finds the earliest release of the same recording by searching for other versions
+ * with the same ISRC, or the same title by the same main artist.
+ */
+export async function findOriginalReleaseDate(id: string, type: ContentType, known: ReleaseDates, options: ScheduleOptions = {}): Promise<string | undefined> {
+    if (type !== "track") return known.album;
+
+    const item = await MediaItem.fromId(id, "track");
+    const tidalItem = item?.tidalItem;
+    if (!tidalItem?.title) return known.album;
+
+    const artist = tidalItem.artist ?? tidalItem.artists?.[0];
+    const query = `${tidalItem.title} ${artist?.name ?? ""}`.trim();
+    const headers = await TidalApi.getAuthHeaders();
+    const res = await getScheduler().fetch(
+        `https://desktop.tidal.com/v1/search?query=${encodeURIComponent(query)}&limit=50&types=TRACKS&${TidalApi.queryArgs()}`,
+        { headers },
+        options
+    );
+    if (!res.ok) throw new HttpError(res.status);
+
+    const title = normalize(tidalItem.title);
+    const items: any[] = (await res.json())?.tracks?.items ?? [];
+    const versions = items.filter(candidate =>
+        (tidalItem.isrc && candidate.isrc === tidalItem.isrc) ||
+        (normalize(String(candidate.title ?? "")) === title && candidate.artists?.some((a: any) => a.id === artist?.id))
+    );
+
+    const dates = [known.album, ...versions.map(v => v.album?.releaseDate ?? v.streamStartDate)]
+        .filter((date): date is string => !!date && !isNaN(new Date(date).getTime()));
+    return dates.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+}
+
+export const isComplete = (dates: ReleaseDates) => dates.originalChecked || !needsOriginal(storage.dateSource);
+
+/** Returns the cached dates for `id`, loading whatever the current date source still needs. */
+export async function loadDates(id: string, options: ScheduleOptions, type: ContentType = "track"): Promise<ReleaseDates> {
+    let dates = getCachedDates(id, type);
+    if (!dates) {
+        dates = setCachedDates(id, type, await loadReleaseDates(id, type, options));
+    }
+    if (!isComplete(dates)) {
+        dates.original = await findOriginalReleaseDate(id, type, dates, options);
+        dates.originalChecked = true;
+    }
+    return dates;
+}
+
+export const getPrimaryDate = (dates: ReleaseDates, source: DateSource) =>
+    source === "stream"
+        ? dates.stream ?? dates.album
+        : source === "original"
+            ? dates.original ?? dates.album
+            : dates.album ?? dates.stream;
+
+export function getDisplayDate(dates: ReleaseDates, source: DateSource, format: string): string {
+    const primary = getPrimaryDate(dates, source);
+
+    const text = formatDate(primary ?? "", format);
+    if (source !== "both" || !text) return text;
+
+    const originalYear = getYear(dates.original);
+    return originalYear < getYear(primary) ? `${text} (orig. ${originalYear})` : text;
+}
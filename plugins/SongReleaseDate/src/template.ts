@@ -0,0 +1,27 @@
+export const TEMPLATE_FIELDS = ["date", "album", "stream", "original", "relative", "year", "albumType", "albumTitle", "label"] as const;
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+export type TemplateValues = Partial<Record<TemplateField, string>>;
+
+// Fields that need the album itself, which costs an extra request
+export const ALBUM_FIELDS: readonly TemplateField[] = ["albumType", "albumTitle", "label"];
+
+export const TEMPLATE_HELP = "{date} formatted date · {album} {stream} {original} a specific date · {relative} 3 years ago · {year} 2011 · {albumType} Album/EP/Single · {albumTitle} · {label} record label";
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+// Separators left dangling when a placeholder at either end has no value
+const DANGLING = /^[\s·•|,/–—-]+|[\s·•|,/–—-]+$/g;
+
+const isField = (name: string): name is TemplateField => (TEMPLATE_FIELDS as readonly string[]).includes(name);
+
+export const getTemplateFields = (template: string): TemplateField[] =>
+    [...template.matchAll(PLACEHOLDER)].map(m => m[1]).filter(isField);
+
+export const getUnknownFields = (template: string): string[] =>
+    [...template.matchAll(PLACEHOLDER)].map(m => m[1]).filter(name => !isField(name));
+
+export function renderTemplate(template: string, values: TemplateValues): string {
+    return template
+        .replace(PLACEHOLDER, (match, name: string) => (isField(name) ? values[name] ?? "" : match))
+        .replace(/\s{2,}/g, " ")
+        .replace(DANGLING, "");
+}
@@ -0,0 +1,66 @@
+import { Priority } from "@renskursa/request-scheduler";
+import { ReleaseDates, loadAlbumDetails } from "./releaseDates";
+import { formatRelative } from "./dateFormat";
+
+const TOOLTIP_CLASS = "luna-release-date-tooltip";
+
+const formatFullDate = (dateStr: string) =>
+    new Intl.DateTimeFormat(undefined, { dateStyle: "full", timeZone: "UTC" }).format(new Date(dateStr));
+
+export function describeRelease(dates: ReleaseDates): string[] {
+    const { track, albumDetails } = dates;
+    const primary = dates.album ?? dates.stream;
+    const lines: string[] = [];
+
+    if (primary && !isNaN(new Date(primary).getTime())) {
+        lines.push(`Released ${formatFullDate(primary)} (${formatRelative(new Date(primary))})`);
+    }
+    if (dates.original && dates.original !== primary) lines.push(`Originally released ${formatFullDate(dates.original)}`);
+    if (albumDetails?.title) lines.push(albumDetails.type ? `${albumDetails.type}: ${albumDetails.title}` : albumDetails.title);
+    if (track?.trackNumber) lines.push(`Track ${track.trackNumber}${track.volumeNumber ? `, disc ${track.volumeNumber}` : ""}`);
+    if (albumDetails?.label) lines.push(`Label: ${albumDetails.label}`);
+    if (albumDetails?.copyright ?? track?.copyright) lines.push(albumDetails?.copyright ?? track!.copyright!);
+    if (track?.isrc) lines.push(`ISRC: ${track.isrc}`);
+    if (albumDetails?.upc) lines.push(`UPC: ${albumDetails.upc}`);
+    return lines;
+}
+
+export function removeTooltip() {
+    document.querySelector(`.${TOOLTIP_CLASS}`)?.remove();
+}
+
+function showTooltip(anchor: Element, lines: string[]) {
+    removeTooltip();
+    if (lines.length === 0) return;
+
+    const tooltip = document.createElement("div");
+    tooltip.className = TOOLTIP_CLASS;
+    tooltip.style.cssText = "position: fixed; z-index: 10000; max-width: 360px; padding: 8px 12px; border-radius: 6px; background: var(--wave-color-solid-base-brighter, #1f1f1f); color: var(--wave-color-text-primary, #fff); font-size: 0.75rem; line-height: 1.5; white-space: pre-line; pointer-events: none; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);";
+    tooltip.textContent = lines.join("\n");
+    document.body.append(tooltip);
+
+    const rect = anchor.getBoundingClientRect();
+    tooltip.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - tooltip.offsetWidth - 8))}px`;
+    tooltip.style.top = `${Math.max(8, rect.top - tooltip.offsetHeight - 8)}px`;
+}
+
+/** Shows release metadata for whatever `getDates` returns while `span` is hovered. */
+export function attachTooltip(span: HTMLElement, getDates: () => ReleaseDates | undefined) {
+    let hovered = false;
+
+    span.addEventListener("mouseenter", async () => {
+        hovered = true;
+        const dates = getDates();
+        if (!dates) return;
+
+        showTooltip(span, describeRelease(dates));
+        if (dates.albumDetails) return;
+
+        await loadAlbumDetails(dates, { priority: Priority.CURRENT }).catch(() => undefined);
+        if (hovered && getDates() === dates) showTooltip(span, describeRelease(dates));
+    });
+    span.addEventListener("mouseleave", () => {
+        hovered = false;
+        removeTooltip();
+    });
+}
@@ -0,0 +1,107 @@
+import { Priority } from "@renskursa/request-scheduler";
+import { storage } from "./Settings";
+import { getCachedDates, loadDates, isComplete, getDisplayDate } from "./releaseDates";
+
+const ROW_SELECTOR = '[data-test="tracklist-row"]';
+const LABEL_CLASS = "luna-release-date-row";
+const BATCH_DELAY_MS = 100;
+
+const pendingRows = new Set<Element>();
+let batchTimer: ReturnType<typeof setTimeout> | undefined;
+
+const getRowTrackId = (row: Element) =>
+    row.getAttribute("data-track-id") ??
+    row.querySelector('a[href*="/track/"]')?.getAttribute("href")?.match(/\/track\/(\d+)/)?.[1];
+
+// The label remembers the track it was rendered for, since rows are recycled for other tracks while scrolling
+const renderLabel = (row: Element, label: HTMLElement) => {
+    const id = getRowTrackId(row);
+    const dates = id ? getCachedDates(id) : undefined;
+    label.dataset.renderedTrackId = id ?? "";
+    label.textContent = dates ? getDisplayDate(dates, storage.dateSource, storage.dateFormat) : "";
+};
+
+const getLabel = (row: Element) => {
+    let label = row.querySelector<HTMLElement>(`.${LABEL_CLASS}`);
+    if (label) return label;
+
+    label = document.createElement("span");
+    label.className = LABEL_CLASS;
+    label.style.cssText = "display: block; color: var(--text-secondary, #919496); font-size: 0.75rem; font-family: inherit; white-space: nowrap;";
+    const titleCell = row.querySelector('[data-test="table-cell-title"]') ?? row;
+    titleCell.append(label);
+    return label;
+};
+
+// Rows that scrolled into view are collected and loaded together, then rendered in one pass
+const flushBatch = async () => {
+    batchTimer = undefined;
+    const rows = [...pendingRows];
+    pendingRows.clear();
+
+    const ids = [...new Set(rows.map(getRowTrackId).filter((id): id is string => !!id))];
+    await Promise.all(ids
+        .filter(id => {
+            const cached = getCachedDates(id);
+            return !cached || !isComplete(cached);
+        })
+        .map(id => loadDates(id, { priority: Priority.NORMAL }).catch(() => undefined)));
+
+    for (const row of rows) {
+        const label = row.querySelector<HTMLElement>(`.${LABEL_CLASS}`);
+        if (label) renderLabel(row, label);
+    }
+};
+
+const queueRow = (row: Element) => {
+    pendingRows.add(row);
+    if (batchTimer === undefined) batchTimer = setTimeout(flushBatch, BATCH_DELAY_MS);
+};
+
+const visibilityObserver = new IntersectionObserver((entries) => {
+    for (const entry of entries) {
+        if (entry.isIntersecting) queueRow(entry.target);
+    }
+});
+
+// A recycled row swaps its track link in place, so clear the stale date at once and load the new one
+const recycleObserver = new MutationObserver((records) => {
+    const rows = new Set(records.map(r => (r.target as Element).closest?.(ROW_SELECTOR)).filter((row): row is Element => !!row));
+    for (const row of rows) {
+        const label = row.querySelector<HTMLElement>(`.${LABEL_CLASS}`);
+        if (!label || label.dataset.renderedTrackId === (getRowTrackId(row) ?? "")) continue;
+        renderLabel(row, label);
+        queueRow(row);
+    }
+});
+
+export function removeTrackRowLabels() {
+    document.querySelectorAll(`.${LABEL_CLASS}`).forEach(el => el.remove());
+}
+
+export function disconnectTrackRows() {
+    visibilityObserver.disconnect();
+    recycleObserver.disconnect();
+    clearTimeout(batchTimer);
+    batchTimer = undefined;
+    pendingRows.clear();
+}
+
+/** Labels a newly rendered track row and starts watching it. */
+export function watchRow(row: Element) {
+    if (!storage.showInLists) return;
+    renderLabel(row, getLabel(row));
+    visibilityObserver.observe(row);
+    recycleObserver.observe(row, { subtree: true, attributes: true, attributeFilter: ["href", "data-track-id"] });
+}
+
+/** Mounts or removes the labels on every rendered track row to match the settings. */
+export function refreshTrackRows() {
+    if (!storage.showInLists) {
+        disconnectTrackRows();
+        removeTrackRowLabels();
+        return;
+    }
+
+    document.querySelectorAll(ROW_SELECTOR).forEach(watchRow);
+}
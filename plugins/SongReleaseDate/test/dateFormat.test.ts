@@ -0,0 +1,59 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { formatDate, getInvalidTokens, parseFormat } from "../src/dateFormat";
+
+const NOW = new Date("2024-06-10T00:00:00Z");
+const format = (dateStr: string, fmt: string, locale = "en-US") => formatDate(dateStr, fmt, NOW, locale);
+
+describe("formatDate", () => {
+    test("keeps the numeric formats that already worked", () => {
+        assert.equal(format("2011-03-05", "DD-MM-YYYY"), "05-03-2011");
+        assert.equal(format("2011-03-05", "MM-YYYY"), "03-2011");
+        assert.equal(format("2011-03-05", "D/M/YYYY"), "5/3/2011");
+    });
+
+    test("replaces every occurrence of a token", () => {
+        assert.equal(format("2011-03-05", "YYYY YYYY"), "2011 2011");
+    });
+
+    test("supports month and weekday names, two-digit years and ordinals", () => {
+        assert.equal(format("2011-03-05", "MMM D, YYYY"), "Mar 5, 2011");
+        assert.equal(format("2011-03-05", "Do MMMM"), "5th March");
+        assert.equal(format("2011-03-22", "Do"), "22nd");
+        assert.equal(format("2011-03-05", "dddd"), "Saturday");
+        assert.equal(format("2009-03-05", "'YY"), "'09");
+    });
+
+    test("localizes names", () => {
+        assert.equal(format("2011-03-05", "D MMMM YYYY", "de-DE"), "5 März 2011");
+        assert.equal(format("2011-03-05", "Do MMMM", "de-DE"), "5. März");
+    });
+
+    test("keeps bracketed text literally", () => {
+        assert.equal(format("2011-03-05", "[Day] D [of] MMMM"), "Day 5 of March");
+    });
+
+    test("formats relative dates", () => {
+        assert.equal(format("2011-03-05", "relative"), "13 years ago");
+        assert.equal(format("2024-06-03", "[released] relative"), "released last week");
+        assert.equal(format("2024-06-10", "relative"), "today");
+    });
+
+    test("returns the raw string for dates it can't parse", () => {
+        assert.equal(format("2011", "DD-MM-YYYY"), "2011");
+        assert.equal(format("", "DD-MM-YYYY"), "");
+    });
+});
+
+describe("parseFormat", () => {
+    test("flags unknown words and unclosed brackets", () => {
+        assert.deepEqual(getInvalidTokens("Q YYYY"), ["Q"]);
+        assert.deepEqual(getInvalidTokens("[Released YYYY"), ["[Released YYYY"]);
+        assert.deepEqual(getInvalidTokens("Do MMMM, YYYY"), []);
+    });
+
+    test("prefers the longest token", () => {
+        assert.deepEqual(parseFormat("MMMM").map(p => p.value), ["MMMM"]);
+        assert.deepEqual(parseFormat("DDD").map(p => p.value), ["DD", "D"]);
+    });
+});
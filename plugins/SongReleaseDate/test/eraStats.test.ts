@@ -0,0 +1,41 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { countByDecade, countByYear, getTopDecadeByMonth, toCsv } from "../src/eraStats";
+
+const play = (year: number, playedAt: string, trackId = String(year)) => ({ trackId, year, playedAt: new Date(playedAt).getTime() });
+
+const LOG = [
+    play(1994, "2024-05-03T12:00:00"),
+    play(1999, "2024-05-04T12:00:00"),
+    play(2012, "2024-05-05T12:00:00"),
+    play(1999, "2024-06-01T12:00:00"),
+    play(2012, "2024-06-02T12:00:00"),
+];
+
+describe("era counts", () => {
+    test("counts plays per year and decade in order", () => {
+        assert.deepEqual(countByYear(LOG), [
+            { era: 1994, plays: 1 },
+            { era: 1999, plays: 2 },
+            { era: 2012, plays: 2 },
+        ]);
+        assert.deepEqual(countByDecade(LOG), [
+            { era: 1990, plays: 3 },
+            { era: 2010, plays: 2 },
+        ]);
+    });
+
+    test("finds the most played decade per month, newest first", () => {
+        assert.deepEqual(getTopDecadeByMonth(LOG), [
+            { month: "2024-06", decade: 1990, plays: 1 },
+            { month: "2024-05", decade: 1990, plays: 2 },
+        ]);
+    });
+});
+
+describe("toCsv", () => {
+    test("writes a header and one row per play", () => {
+        const lines = toCsv([{ trackId: "42", year: 1999, playedAt: Date.UTC(2024, 4, 3) }]).split("\n");
+        assert.deepEqual(lines, ["trackId,playedAt,year", "42,2024-05-03T00:00:00.000Z,1999"]);
+    });
+});
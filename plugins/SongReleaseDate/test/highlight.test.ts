@@ -0,0 +1,39 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { describeHighlight, getReleaseHighlight } from "../src/highlight";
+
+const NOW = new Date(2024, 5, 10, 15, 30);
+const ALL = { newBadge: true, newDays: 14, anniversary: true };
+
+describe("getReleaseHighlight", () => {
+    test("flags releases within the last N days as new", () => {
+        assert.deepEqual(getReleaseHighlight("2024-06-10", ALL, NOW), { kind: "new", days: 0 });
+        assert.deepEqual(getReleaseHighlight("2024-05-27", ALL, NOW), { kind: "new", days: 14 });
+        assert.equal(getReleaseHighlight("2024-05-26", ALL, NOW), undefined);
+        assert.equal(getReleaseHighlight("2024-06-11", ALL, NOW), undefined);
+    });
+
+    test("marks anniversaries", () => {
+        assert.deepEqual(getReleaseHighlight("2004-06-10", ALL, NOW), { kind: "anniversary", years: 20 });
+        assert.deepEqual(getReleaseHighlight("2004-06-10T00:00:00.000+0000", ALL, NOW), { kind: "anniversary", years: 20 });
+        assert.equal(getReleaseHighlight("2004-06-11", ALL, NOW), undefined);
+    });
+
+    test("respects each toggle on its own", () => {
+        assert.equal(getReleaseHighlight("2024-06-08", { ...ALL, newBadge: false }, NOW), undefined);
+        assert.equal(getReleaseHighlight("2004-06-10", { ...ALL, anniversary: false }, NOW), undefined);
+    });
+
+    test("ignores missing and invalid dates", () => {
+        assert.equal(getReleaseHighlight(undefined, ALL, NOW), undefined);
+        assert.equal(getReleaseHighlight("not a date", ALL, NOW), undefined);
+    });
+});
+
+describe("describeHighlight", () => {
+    test("describes each kind", () => {
+        assert.equal(describeHighlight({ kind: "new", days: 3 }), "NEW");
+        assert.equal(describeHighlight({ kind: "anniversary", years: 1 }), "Released 1 year ago today");
+        assert.equal(describeHighlight({ kind: "anniversary", years: 20 }), "Released 20 years ago today");
+    });
+});
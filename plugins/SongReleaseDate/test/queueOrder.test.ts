@@ -0,0 +1,43 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isInYearRange, orderByRelease } from "../src/queueOrder";
+
+const item = (name: string, date?: string) => ({ name, time: date ? new Date(date).getTime() : NaN });
+const names = (items: { name: string }[]) => items.map(i => i.name);
+
+const QUEUE = [
+    item("a", "1999-05-01"),
+    item("b"),
+    item("c", "1985-01-01"),
+    item("d", "1999-01-01"),
+    item("e", "2010-07-07"),
+];
+
+describe("orderByRelease", () => {
+    test("sorts chronologically with unknown dates last", () => {
+        assert.deepEqual(names(orderByRelease(QUEUE, "ascending")), ["c", "d", "a", "e", "b"]);
+        assert.deepEqual(names(orderByRelease(QUEUE, "descending")), ["e", "a", "d", "c", "b"]);
+    });
+
+    test("groups by year without reordering within a year", () => {
+        assert.deepEqual(names(orderByRelease(QUEUE, "year")), ["c", "a", "d", "e", "b"]);
+    });
+
+    test("leaves the input untouched", () => {
+        orderByRelease(QUEUE, "ascending");
+        assert.deepEqual(names(QUEUE), ["a", "b", "c", "d", "e"]);
+    });
+});
+
+describe("isInYearRange", () => {
+    test("includes both ends and accepts a reversed range", () => {
+        const time = new Date("1990-01-01").getTime();
+        assert.equal(isInYearRange(time, 1990, 1999), true);
+        assert.equal(isInYearRange(time, 1999, 1990), true);
+        assert.equal(isInYearRange(time, 1991, 1999), false);
+    });
+
+    test("rejects unknown dates", () => {
+        assert.equal(isInYearRange(NaN, 1900, 2100), false);
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getTemplateFields, getUnknownFields, renderTemplate } from "../src/template";
+
+describe("renderTemplate", () => {
+    test("fills placeholders", () => {
+        assert.equal(renderTemplate("{date} · {albumType}", { date: "05-03-2011", albumType: "EP" }), "05-03-2011 · EP");
+        assert.equal(renderTemplate("Released {relative}", { relative: "3 years ago" }), "Released 3 years ago");
+    });
+
+    test("drops separators left behind by empty placeholders", () => {
+        assert.equal(renderTemplate("{date} · {albumType}", { date: "05-03-2011" }), "05-03-2011");
+        assert.equal(renderTemplate("{label} | {year}", { year: "2011" }), "2011");
+        assert.equal(renderTemplate("{date}  {label}  {year}", { date: "05-03-2011", year: "2011" }), "05-03-2011 2011");
+    });
+
+    test("keeps unknown placeholders as written", () => {
+        assert.equal(renderTemplate("{date} {genre}", { date: "2011" }), "2011 {genre}");
+    });
+});
+
+describe("template fields", () => {
+    test("separates known and unknown placeholders", () => {
+        assert.deepEqual(getTemplateFields("{date} · {albumTitle} {genre}"), ["date", "albumTitle"]);
+        assert.deepEqual(getUnknownFields("{date} · {albumTitle} {genre}"), ["genre"]);
+    });
+});